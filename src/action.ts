@@ -1,46 +1,274 @@
-import type {Failure} from "./failure";
+import type {Failure, FailureJSON} from "./failure";
+import {FailureRegistry} from "./failureRegistry";
 import {IllegalArgument} from "./failures/IllegalArgument";
+import {IllegalState} from "./failures/IllegalState";
+import {Option} from "./option";
+import {Result} from "./result";
 
+/**
+ * The stage an action is in: not started, running, succeeded or failed.
+ */
+export type ActionStatus = 'init' | 'loading' | 'ok' | 'failure';
 
 export interface OkResult<T> {
+    readonly status: 'ok';
     readonly isOk: true;
     readonly isFailure: false;
     readonly value: T;
 }
 
 export interface InitResult<T> {
+    readonly status: 'init';
     readonly isOk: false;
     readonly isFailure: false;
 }
 
+/**
+ * A running action. When it runs again after having produced a value, it is `refreshing`
+ * and keeps that value, so the UI can keep showing it; on a first load there is no value.
+ */
+export interface LoadingResult<T> {
+    readonly status: 'loading';
+    readonly isOk: false;
+    readonly isFailure: false;
+    readonly refreshing: boolean;
+    readonly value?: T;
+}
+
 export interface FailureResult<T> {
+    readonly status: 'failure';
     readonly isOk: false;
     readonly isFailure: true;
     readonly failure: Failure;
-    readonly value?: T; // Explicitly state value is undefined for failure results
+    readonly value?: T; // The last good value, if the action had produced one before failing
 }
 
-export type ActionState<T> = OkResult<T> | FailureResult<T> | InitResult<T>;
+export type ActionState<T> = OkResult<T> | FailureResult<T> | LoadingResult<T> | InitResult<T>;
 
 export function okState<T>(value: T): OkResult<T> {
-    // if (value === null || value === undefined) {
-    //     throw new IllegalArgument("value cannot be null or undefined for an 'ok' Result.");
-    // }
-    return { isOk: true, isFailure: false, value };
+    // `isOk` is the discriminant, so falsy values (0, "", false) and `undefined` are all valid ok values
+    return { status: 'ok', isOk: true, isFailure: false, value };
 }
 
 export function initState<T>(): InitResult<T> {
-    return { isOk: false, isFailure: false };
+    return { status: 'init', isOk: false, isFailure: false };
+}
+
+/**
+ * Creates the state of an action loading for the first time, without a value to show.
+ */
+export function loadingState<T>(): LoadingResult<T> {
+    return { status: 'loading', isOk: false, isFailure: false, refreshing: false };
 }
 
-export function failureState<T>(error: Failure): FailureResult<T> {
+/**
+ * Creates the state of an action loading again while keeping its previous value.
+ * @param value The previous value.
+ */
+export function refreshingState<T>(value: T): LoadingResult<T> {
+    return { status: 'loading', isOk: false, isFailure: false, refreshing: true, value };
+}
+
+/**
+ * Creates the state of a failed action.
+ * @param error The failure.
+ * @param lastValue The last good value, if the action had produced one before failing. Passing `undefined`
+ * keeps it as the value (e.g. for a `Result<void>` action); omit the argument when there is no value.
+ */
+export function failureState<T>(error: Failure, ...lastValue: [] | [lastValue: T]): FailureResult<T> {
     if (error === null || error === undefined) {
         throw new IllegalArgument("Failure object cannot be null or undefined for an error Result.");
     }
     if (error.isEmpty()) {
         throw new IllegalArgument("Cannot create a failure Result with an empty Failure object. Use Result.ok() instead.");
     }
-    return { isOk: false, isFailure: true, failure: error };
+    return lastValue.length > 0
+        ? { status: 'failure', isOk: false, isFailure: true, failure: error, value: lastValue[0] as T }
+        : { status: 'failure', isOk: false, isFailure: true, failure: error };
+}
+
+/**
+ * Checks if the state holds a value to show: the value of an ok state, or the value kept while refreshing or after a failure.
+ * @param state The state to check.
+ */
+export function hasValue<T>(state: ActionState<T>): state is ActionState<T> & { readonly value: T } {
+    return 'value' in state;
+}
+
+/**
+ * Returns the value to show for the state (see `hasValue`), or `undefined` if there is none.
+ * @param state The state to read.
+ */
+export function currentValue<T>(state: ActionState<T>): T | undefined {
+    return hasValue(state) ? state.value : undefined;
+}
+
+/**
+ * Moves to the loading state. Allowed from every state: from a state with a value this is a refresh
+ * that keeps the value, otherwise a first load. Restarting a loading state keeps it as it is.
+ * @param state The current state.
+ */
+export function startLoading<T>(state: ActionState<T>): LoadingResult<T> {
+    if (state.status === 'loading') {
+        return state;
+    }
+    return hasValue(state) ? refreshingState(state.value) : loadingState();
+}
+
+/**
+ * Moves from the loading state to the ok state.
+ * @param state The current state, which must be loading.
+ * @param value The value produced by the action.
+ * @throws {IllegalState} If the state is not loading.
+ */
+export function succeed<T>(state: ActionState<T>, value: T): OkResult<T> {
+    if (state.status !== 'loading') {
+        throw IllegalState.expected('loading', state.status);
+    }
+    return okState(value);
+}
+
+/**
+ * Moves from the loading state to the failure state, keeping the last good value.
+ * @param state The current state, which must be loading.
+ * @param failure The failure of the action.
+ * @throws {IllegalState} If the state is not loading.
+ */
+export function fail<T>(state: ActionState<T>, failure: Failure): FailureResult<T> {
+    if (state.status !== 'loading') {
+        throw IllegalState.expected('loading', state.status);
+    }
+    return hasValue(state) ? failureState(failure, state.value) : failureState(failure);
+}
+
+/**
+ * Moves from the loading state to the ok or failure state, depending on the Result of the action.
+ * @param state The current state, which must be loading.
+ * @param result The Result of the action.
+ * @throws {IllegalState} If the state is not loading.
+ */
+export function settle<T>(state: ActionState<T>, result: Result<T, Failure>): OkResult<T> | FailureResult<T> {
+    return result.isOk() ? succeed(state, result.get()) : fail(state, result.failure());
+}
+
+/**
+ * The events handled by `actionStateReducer`.
+ */
+export type ActionEvent<T> =
+    | { readonly type: 'start' }
+    | { readonly type: 'succeed'; readonly value: T }
+    | { readonly type: 'fail'; readonly failure: Failure }
+    | { readonly type: 'reset' };
+
+/**
+ * Applies an event to a state, e.g. with React's `useReducer`. Unlike `succeed` and `fail`, an event that is not
+ * allowed in the current state (such as a late `succeed` after a `reset`) does not throw and returns the state unchanged.
+ * @param state The current state.
+ * @param event The event to apply.
+ * @returns The next state.
+ */
+export function actionStateReducer<T>(state: ActionState<T>, event: ActionEvent<T>): ActionState<T> {
+    switch (event.type) {
+        case 'start':
+            return startLoading(state);
+        case 'succeed':
+            return state.status === 'loading' ? succeed(state, event.value) : state;
+        case 'fail':
+            return state.status === 'loading' ? fail(state, event.failure) : state;
+        case 'reset':
+            return initState();
+    }
+}
+
+/**
+ * Folds a state into a single value by running the handler for its status.
+ * @param state The state to match.
+ * @param handlers `loading` and `failure` also receive the value kept from before, if any.
+ * @returns The value returned by the selected handler.
+ */
+export function matchActionState<T, R>(state: ActionState<T>, handlers: {
+    init: () => R;
+    loading: (previous: T | undefined, refreshing: boolean) => R;
+    ok: (value: T) => R;
+    failure: (failure: Failure, lastValue: T | undefined) => R;
+}): R {
+    switch (state.status) {
+        case 'init':
+            return handlers.init();
+        case 'loading':
+            return handlers.loading(state.value, state.refreshing);
+        case 'ok':
+            return handlers.ok(state.value);
+        case 'failure':
+            return handlers.failure(state.failure, state.value);
+    }
+}
+
+/**
+ * Creates the ok or failure state matching a Result.
+ * @param result The Result to convert.
+ */
+export function actionStateFromResult<T>(result: Result<T, Failure>): OkResult<T> | FailureResult<T> {
+    return result.isOk() ? okState(result.get()) : failureState(result.failure());
+}
+
+/**
+ * Converts a settled state to a Result.
+ * @param state The state to convert.
+ * @returns The Result of an ok or failure state, or an empty Option while the action has not settled.
+ */
+export function actionStateToResult<T>(state: ActionState<T>): Option<Result<T, Failure>> {
+    switch (state.status) {
+        case 'ok':
+            return Option.some(Result.ok<T, Failure>(state.value));
+        case 'failure':
+            return Option.some(Result.failure<T, Failure>(state.failure));
+        default:
+            return Option.none();
+    }
+}
+
+/**
+ * The JSON form of an ActionState, with the failure in the tagged form of `Failure.toJSON`.
+ * A failure state records whether it kept a last value in `hasValue`, as `JSON.stringify`
+ * drops a last value of `undefined`.
+ */
+export type ActionStateJSON<T> =
+    | OkResult<T>
+    | InitResult<T>
+    | LoadingResult<T>
+    | (Omit<FailureResult<T>, 'failure'> & { readonly failure: FailureJSON; readonly hasValue: boolean });
+
+/**
+ * Returns the JSON form of an ActionState, e.g. to send it with `postMessage` or to stringify it.
+ * @param state The state to convert.
+ */
+export function actionStateToJSON<T>(state: ActionState<T>): ActionStateJSON<T> {
+    return state.status === 'failure'
+        ? { ...state, failure: state.failure.toJSON(), hasValue: hasValue(state) }
+        : { ...state };
+}
+
+/**
+ * Recreates an ActionState from its JSON form; the failure is recreated by the registry, keeping its class.
+ * @param json The JSON form produced by `actionStateToJSON`, possibly after a trip through `JSON.stringify` and `JSON.parse`.
+ * @param registry The registry of failure types; defaults to the built-in failures.
+ */
+export function actionStateFromJSON<T>(json: ActionStateJSON<T>, registry: FailureRegistry = FailureRegistry.defaults()): ActionState<T> {
+    switch (json?.status) {
+        case 'init':
+            return initState();
+        case 'loading':
+            return json.refreshing ? refreshingState(json.value as T) : loadingState();
+        case 'ok':
+            return okState(json.value);
+        case 'failure': {
+            const failure = registry.fromJSON(json.failure);
+            return json.hasValue ? failureState(failure, json.value as T) : failureState(failure);
+        }
+        default:
+            throw new IllegalArgument("JSON provided to actionStateFromJSON is not the JSON form of an ActionState");
+    }
 }
 
 // export class ActionState2 { // Renamed to ResultClass to avoid conflict with `type Result<T>`
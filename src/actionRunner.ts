@@ -0,0 +1,164 @@
+import {type ActionState, initState, settle, startLoading} from "./action";
+import type {Failure} from "./failure";
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {Result} from "./result";
+import type {Awaitable} from "./resultAsync";
+
+/**
+ * Passed to the function wrapped by an Action as its first argument.
+ */
+export interface ActionContext {
+    /** Aborted when the run is cancelled, reset or superseded by a newer run. */
+    readonly signal: AbortSignal;
+}
+
+export interface ActionOptions {
+    /** Returns the run in flight instead of starting a new one when `run` is called with the same arguments. Defaults to `true`. */
+    readonly dedupe?: boolean;
+}
+
+interface Run<TArgs, T> {
+    readonly id: number;
+    readonly args: TArgs;
+    readonly controller: AbortController;
+    readonly promise: Promise<Result<T, Failure>>;
+    /** The state before the first of a series of superseding runs, restored by `cancel`. */
+    readonly before: ActionState<T>;
+}
+
+function sameArgs(first: readonly unknown[], second: readonly unknown[]): boolean {
+    return first.length === second.length && first.every((arg, index) => Object.is(arg, second[index]));
+}
+
+/**
+ * `Action` runs an async function and exposes its progress as an `ActionState`, without depending on any UI framework.
+ * `subscribe` and `getSnapshot` are bound, so they can be passed as is to React's `useSyncExternalStore`.
+ * Only the latest run updates the state: starting a run aborts the one in flight, and results of superseded,
+ * cancelled or reset runs are discarded.
+ * @template TArgs The arguments of `run`.
+ * @template T The type of the value produced by a run.
+ */
+export class Action<TArgs extends readonly unknown[], T> {
+    private readonly _execute: (context: ActionContext, ...args: TArgs) => Promise<Result<T, Failure>>;
+    private readonly _dedupe: boolean;
+    private readonly _listeners = new Set<() => void>();
+    private _state: ActionState<T> = initState();
+    private _current: Run<TArgs, T> | undefined;
+    private _nextId = 0;
+
+    private constructor(execute: (context: ActionContext, ...args: TArgs) => Promise<Result<T, Failure>>, options: ActionOptions) {
+        this._execute = execute;
+        this._dedupe = options.dedupe ?? true;
+    }
+
+    /**
+     * Creates an Action from a function returning a value or a Promise of one; thrown errors and rejections
+     * become failures, as with `Result.of`: `Action.of(({ signal }, id: string) => fetchUser(id, { signal }))`.
+     * @param fn The function to run; it receives the ActionContext, then the arguments of `run`.
+     * @param options The options of the Action.
+     */
+    public static of<TArgs extends readonly unknown[], T>(fn: (context: ActionContext, ...args: TArgs) => Awaitable<T>, options: ActionOptions = {}): Action<TArgs, T> {
+        if (!fn) {
+            throw new IllegalArgument("Function provided to Action.of is null/undefined");
+        }
+        return new Action<TArgs, T>((context, ...args) => Result.of(async () => fn(context, ...args)), options);
+    }
+
+    /**
+     * Creates an Action from a function returning a Result, a Promise of one or a ResultAsync.
+     * Thrown errors and rejections also become failures.
+     * @param fn The function to run; it receives the ActionContext, then the arguments of `run`.
+     * @param options The options of the Action.
+     */
+    public static fromResult<TArgs extends readonly unknown[], T>(fn: (context: ActionContext, ...args: TArgs) => Awaitable<Result<T, Failure>>, options: ActionOptions = {}): Action<TArgs, T> {
+        if (!fn) {
+            throw new IllegalArgument("Function provided to Action.fromResult is null/undefined");
+        }
+        return new Action<TArgs, T>(async (context, ...args) =>
+            (await Result.of(async () => fn(context, ...args))).flatMap((result) => result), options);
+    }
+
+    /**
+     * Registers a listener called after every state change.
+     * @param listener The function to call.
+     * @returns A function that removes the listener.
+     */
+    public readonly subscribe = (listener: () => void): (() => void) => {
+        if (!listener) {
+            throw new IllegalArgument("Listener provided to subscribe is null/undefined");
+        }
+        this._listeners.add(listener);
+        return () => {
+            this._listeners.delete(listener);
+        };
+    };
+
+    /**
+     * Returns the current state. The same object is returned until the state changes.
+     */
+    public readonly getSnapshot = (): ActionState<T> => this._state;
+
+    /**
+     * Checks if a run is in flight.
+     */
+    public isRunning(): boolean {
+        return this._current !== undefined;
+    }
+
+    /**
+     * Starts a run, moving the state to loading (refreshing, if there is a value to keep).
+     * A run in flight with different arguments is aborted and its result discarded.
+     * @param args The arguments passed to the function after the ActionContext.
+     * @returns A Promise of the run's Result, which resolves even if the result is discarded.
+     */
+    public run(...args: TArgs): Promise<Result<T, Failure>> {
+        const current = this._current;
+        if (this._dedupe && current && sameArgs(current.args, args)) {
+            return current.promise;
+        }
+        current?.controller.abort();
+        const id = ++this._nextId;
+        const controller = new AbortController();
+        const before = current ? current.before : this._state;
+        const promise = this._execute({ signal: controller.signal }, ...args).then((result) => {
+            if (this._current?.id === id) {
+                this._current = undefined;
+                this.setState(settle(this._state, result));
+            }
+            return result;
+        });
+        // Registered before notifying, so listeners see the run in flight and calls to `run` from them are deduped
+        this._current = { id, args, controller, promise, before };
+        this.setState(startLoading(this._state));
+        return promise;
+    }
+
+    /**
+     * Aborts the run in flight, if any, and restores the state it started from.
+     */
+    public cancel(): void {
+        const current = this._current;
+        if (current) {
+            this._current = undefined;
+            current.controller.abort();
+            this.setState(current.before);
+        }
+    }
+
+    /**
+     * Aborts the run in flight, if any, and moves back to the init state.
+     */
+    public reset(): void {
+        const current = this._current;
+        this._current = undefined;
+        current?.controller.abort();
+        this.setState(initState());
+    }
+
+    private setState(state: ActionState<T>): void {
+        if (state !== this._state) {
+            this._state = state;
+            [...this._listeners].forEach((listener) => listener());
+        }
+    }
+}
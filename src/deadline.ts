@@ -0,0 +1,158 @@
+import {CancelledFailure} from "./failures/CancelledFailure";
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {TimeoutFailure} from "./failures/TimeoutFailure";
+import type {Awaitable} from "./resultAsync";
+
+/**
+ * Time limit and cancellation options accepted by `Result.of`, `failureOfAsync`, `Option.of` and `runWithin`.
+ */
+export interface CallOptions {
+    /** Fails the call with a TimeoutFailure after this many milliseconds. */
+    readonly timeoutMs?: number;
+    /** A deadline shared with other calls; the call fails with a TimeoutFailure when it expires. */
+    readonly deadline?: Deadline;
+    /** Fails the call with a CancelledFailure when aborted. */
+    readonly signal?: AbortSignal;
+}
+
+/** The longest delay `setTimeout` supports; longer delays fire at once. */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+function checkTimeout(argument: string, timeoutMs: number): void {
+    if (typeof timeoutMs !== 'number' || Number.isNaN(timeoutMs) || timeoutMs < 0) {
+        throw IllegalArgument.forArgument(argument, "must be a non-negative number");
+    }
+}
+
+/**
+ * A point in time by which a whole operation must finish. Pass it to every nested call so they share
+ * the remaining time instead of each getting its own timeout: `Result.of(fetchOrder, { deadline })`.
+ */
+export class Deadline {
+    private readonly _expiresAt: number;
+    private readonly _clock: () => number;
+
+    private constructor(expiresAt: number, clock: () => number) {
+        this._expiresAt = expiresAt;
+        this._clock = clock;
+    }
+
+    /**
+     * Creates a Deadline expiring after the given time.
+     * @param timeoutMs The time budget in milliseconds; `Infinity` never expires.
+     * @param clock The clock to measure time with. Defaults to `Date.now`.
+     * @throws {IllegalArgument} If the time budget is NaN or negative.
+     */
+    public static after(timeoutMs: number, clock: () => number = Date.now): Deadline {
+        checkTimeout("timeoutMs", timeoutMs);
+        return new Deadline(clock() + timeoutMs, clock);
+    }
+
+    /**
+     * The clock time at which this Deadline expires.
+     */
+    public get expiresAt(): number {
+        return this._expiresAt;
+    }
+
+    /**
+     * The time left, in milliseconds; 0 once expired.
+     */
+    public remainingMs(): number {
+        return Math.max(0, this._expiresAt - this._clock());
+    }
+
+    public isExpired(): boolean {
+        return this.remainingMs() === 0;
+    }
+
+    /**
+     * Derives a Deadline for a nested step, expiring after `timeoutMs` or with this one, whichever comes first.
+     * @param timeoutMs The time budget of the nested step in milliseconds.
+     * @throws {IllegalArgument} If the time budget is NaN or negative.
+     */
+    public within(timeoutMs: number): Deadline {
+        checkTimeout("timeoutMs", timeoutMs);
+        return new Deadline(Math.min(this._expiresAt, this._clock() + timeoutMs), this._clock);
+    }
+}
+
+/**
+ * Checks if an error is the TimeoutFailure or CancelledFailure produced by `runWithin`,
+ * which callers report as is instead of wrapping.
+ */
+export function isInterruption(error: unknown): error is TimeoutFailure | CancelledFailure {
+    return error instanceof TimeoutFailure || error instanceof CancelledFailure;
+}
+
+/**
+ * Calls `callback` after `delayMs`, chaining timers for delays `setTimeout` cannot handle in one go.
+ * @returns A function that cancels the call.
+ */
+export function schedule(callback: () => void, delayMs: number): () => void {
+    let timer: ReturnType<typeof setTimeout>;
+    const wait = (remainingMs: number) => {
+        timer = remainingMs > MAX_TIMER_DELAY_MS
+            ? setTimeout(() => wait(remainingMs - MAX_TIMER_DELAY_MS), MAX_TIMER_DELAY_MS)
+            : setTimeout(callback, remainingMs);
+    };
+    wait(delayMs);
+    return () => clearTimeout(timer);
+}
+
+/**
+ * Runs a supplier under a time limit and an abort signal. The supplier receives a signal that is aborted
+ * when the call times out or is cancelled, so it can stop its own work (e.g. pass it to `fetch`).
+ * @param supplier The function to run; it may return a value or a Promise of one.
+ * @param options The time limit, deadline and signal; without any, the supplier simply runs.
+ * @returns A Promise of the supplied value. It rejects with a TimeoutFailure when the time limit or the deadline
+ * is reached first, with a CancelledFailure when the signal is aborted first, and with the supplier's own error otherwise.
+ * @throws {IllegalArgument} If `timeoutMs` is NaN or negative.
+ */
+export function runWithin<T>(supplier: (signal: AbortSignal) => Awaitable<T>, options: CallOptions = {}): Promise<T> {
+    if (!supplier) {
+        throw new IllegalArgument("Supplier provided to runWithin is null/undefined");
+    }
+    const { signal, deadline } = options;
+    if (options.timeoutMs !== undefined) {
+        checkTimeout("timeoutMs", options.timeoutMs);
+    }
+    const limits = [options.timeoutMs, deadline?.remainingMs()].filter((limit): limit is number => limit !== undefined);
+    const timeoutMs = limits.length > 0 ? Math.min(...limits) : undefined;
+
+    if (signal?.aborted) {
+        return Promise.reject(CancelledFailure.fromSignal(signal));
+    }
+    if (timeoutMs !== undefined && timeoutMs <= 0) {
+        return Promise.reject(TimeoutFailure.after(Math.max(0, timeoutMs)));
+    }
+
+    const controller = new AbortController();
+    return new Promise<T>((resolve, reject) => {
+        let cancelTimer: (() => void) | undefined;
+        const cleanup = () => {
+            cancelTimer?.();
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const stop = (failure: TimeoutFailure | CancelledFailure) => {
+            cleanup();
+            controller.abort(failure);
+            reject(failure);
+        };
+        const onAbort = () => stop(CancelledFailure.fromSignal(signal as AbortSignal));
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        if (timeoutMs !== undefined && Number.isFinite(timeoutMs)) {
+            cancelTimer = schedule(() => stop(TimeoutFailure.after(timeoutMs)), timeoutMs);
+        }
+        Promise.resolve()
+            .then(() => supplier(controller.signal))
+            .then((value) => {
+                cleanup();
+                resolve(value);
+            }, (error: unknown) => {
+                cleanup();
+                reject(error);
+            });
+    });
+}
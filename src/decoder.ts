@@ -0,0 +1,300 @@
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {fieldPath, InvalidRequest, InvalidRequestBuilder} from "./failures/InvalidRequest";
+import {Result} from "./result";
+
+const INVALID: unique symbol = Symbol('invalid');
+
+type Decode<T> = (input: unknown, path: string, errors: InvalidRequestBuilder) => T | typeof INVALID;
+
+type Literal = string | number | boolean | null;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * The type produced by a Decoder: `type User = DecodedOf<typeof userDecoder>`.
+ */
+export type DecodedOf<D> = D extends Decoder<infer T> ? T : never;
+
+/**
+ * The type produced by `Decoder.object`: fields whose decoder accepts `undefined` become optional.
+ */
+type DecodedObject<S extends Record<string, Decoder<unknown>>> = Simplify<
+    { [K in keyof S as undefined extends DecodedOf<S[K]> ? never : K]: DecodedOf<S[K]> } &
+    { [K in keyof S as undefined extends DecodedOf<S[K]> ? K : never]?: DecodedOf<S[K]> }
+>;
+
+/**
+ * Names the type of a value as it appears in decode errors, e.g. `null`, `array` or `number`.
+ */
+function describe(input: unknown): string {
+    if (input === null) {
+        return 'null';
+    }
+    if (Array.isArray(input)) {
+        return 'array';
+    }
+    if (typeof input === 'number' && Number.isNaN(input)) {
+        return 'NaN';
+    }
+    return typeof input;
+}
+
+function isRecord(input: unknown): input is Record<string, unknown> {
+    return typeof input === 'object' && input !== null && !Array.isArray(input);
+}
+
+/**
+ * `Decoder` turns `unknown` input, such as a parsed request body or queue message, into a typed value.
+ * A mismatch is reported as an `InvalidRequest` holding every error keyed by field path
+ * (e.g. `items[2].price`), with reasons such as `expected number, got string`.
+ * The decoded type is inferred: `type User = DecodedOf<typeof userDecoder>`.
+ * @template T The type of the decoded value.
+ */
+export class Decoder<T> {
+    private readonly run: Decode<T>;
+
+    /**
+     * What this Decoder accepts, as shown in the `expected ...` part of its errors.
+     */
+    public readonly expected: string;
+
+    private constructor(expected: string, run: Decode<T>) {
+        this.expected = expected;
+        this.run = run;
+    }
+
+    /**
+     * Creates a Decoder from a type guard.
+     * @param expected What the guard accepts, e.g. `UUID`.
+     * @param guard Returns `true` if the input is a `T`.
+     * @returns The Decoder.
+     */
+    public static of<T>(expected: string, guard: (input: unknown) => input is T): Decoder<T> {
+        if (!expected || !guard) {
+            throw new IllegalArgument("Expected and guard provided to Decoder.of cannot be null/undefined");
+        }
+        return new Decoder<T>(expected, (input, path, errors) => {
+            if (guard(input)) {
+                return input;
+            }
+            errors.add(path, `expected ${expected}, got ${describe(input)}`);
+            return INVALID;
+        });
+    }
+
+    /**
+     * Decodes a string.
+     */
+    public static string(): Decoder<string> {
+        return Decoder.of('string', (input): input is string => typeof input === 'string');
+    }
+
+    /**
+     * Decodes a number; `NaN` is rejected.
+     */
+    public static number(): Decoder<number> {
+        return Decoder.of('number', (input): input is number => typeof input === 'number' && !Number.isNaN(input));
+    }
+
+    /**
+     * Decodes a boolean.
+     */
+    public static boolean(): Decoder<boolean> {
+        return Decoder.of('boolean', (input): input is boolean => typeof input === 'boolean');
+    }
+
+    /**
+     * Decodes one of the given literal values, compared with `===`: `Decoder.literal("OPEN", "CLOSED")`.
+     * @param values The accepted values.
+     */
+    public static literal<const L extends readonly Literal[]>(...values: L): Decoder<L[number]> {
+        if (values.length === 0) {
+            throw new IllegalArgument("Decoder.literal requires at least one value.");
+        }
+        const expected = values.map((value) => JSON.stringify(value)).join(' | ');
+        return new Decoder<L[number]>(expected, (input, path, errors) => {
+            if (values.includes(input as Literal)) {
+                return input as L[number];
+            }
+            const got = ['string', 'number', 'boolean'].includes(typeof input) ? JSON.stringify(input) : describe(input);
+            errors.add(path, `expected ${expected}, got ${got}`);
+            return INVALID;
+        });
+    }
+
+    /**
+     * Decodes an array, decoding every element; errors are reported under the element's index.
+     * @param element The Decoder of a single element.
+     */
+    public static array<T>(element: Decoder<T>): Decoder<T[]> {
+        if (!element) {
+            throw new IllegalArgument("Decoder provided to array is null/undefined");
+        }
+        return new Decoder<T[]>(`${element.expected}[]`, (input, path, errors) => {
+            if (!Array.isArray(input)) {
+                errors.add(path, `expected array, got ${describe(input)}`);
+                return INVALID;
+            }
+            const decoded = input.map((item, index) => element.run(item, fieldPath(path, index), errors));
+            return decoded.includes(INVALID) ? INVALID : decoded as T[];
+        });
+    }
+
+    /**
+     * Decodes an object, decoding every field of the shape; errors are reported under the field name.
+     * Fields that are not in the shape are dropped, and fields whose decoder accepts `undefined` are optional.
+     * @param shape The Decoders keyed by field name.
+     */
+    public static object<S extends Record<string, Decoder<unknown>>>(shape: S): Decoder<DecodedObject<S>> {
+        if (!shape) {
+            throw new IllegalArgument("Shape provided to object is null/undefined");
+        }
+        const fields = Object.entries(shape);
+        return new Decoder<DecodedObject<S>>('object', (input, path, errors) => {
+            if (!isRecord(input)) {
+                errors.add(path, `expected object, got ${describe(input)}`);
+                return INVALID;
+            }
+            let valid = true;
+            const entries: [string, unknown][] = [];
+            for (const [field, decoder] of fields) {
+                const value = Object.prototype.hasOwnProperty.call(input, field) ? input[field] : undefined;
+                const decoded = decoder.run(value, fieldPath(path, field), errors);
+                if (decoded === INVALID) {
+                    valid = false;
+                } else if (decoded !== undefined) {
+                    entries.push([field, decoded]);
+                }
+            }
+            return valid ? Object.fromEntries(entries) as DecodedObject<S> : INVALID;
+        });
+    }
+
+    /**
+     * Decodes an object used as a dictionary, decoding every value; errors are reported under the key.
+     * @param value The Decoder of a single value.
+     */
+    public static record<T>(value: Decoder<T>): Decoder<Record<string, T>> {
+        if (!value) {
+            throw new IllegalArgument("Decoder provided to record is null/undefined");
+        }
+        return new Decoder<Record<string, T>>(`Record<string, ${value.expected}>`, (input, path, errors) => {
+            if (!isRecord(input)) {
+                errors.add(path, `expected object, got ${describe(input)}`);
+                return INVALID;
+            }
+            const decoded = Object.entries(input).map(([key, item]) => [key, value.run(item, fieldPath(path, key), errors)] as const);
+            return decoded.some(([, item]) => item === INVALID) ? INVALID : Object.fromEntries(decoded) as Record<string, T>;
+        });
+    }
+
+    /**
+     * Decodes with the first Decoder that accepts the input. If none does, a single
+     * `expected A | B, got ...` error is reported instead of the errors of every alternative.
+     * @param decoders The alternatives, tried in order.
+     */
+    public static union<D extends readonly Decoder<unknown>[]>(...decoders: D): Decoder<DecodedOf<D[number]>> {
+        if (decoders.length === 0) {
+            throw new IllegalArgument("Decoder.union requires at least one decoder.");
+        }
+        const expected = decoders.map((decoder) => decoder.expected).join(' | ');
+        return new Decoder<DecodedOf<D[number]>>(expected, (input, path, errors) => {
+            for (const decoder of decoders) {
+                const decoded = decoder.run(input, path, InvalidRequest.builder());
+                if (decoded !== INVALID) {
+                    return decoded as DecodedOf<D[number]>;
+                }
+            }
+            errors.add(path, `expected ${expected}, got ${describe(input)}`);
+            return INVALID;
+        });
+    }
+
+    /**
+     * Accepts `undefined` (including a missing field) in addition to what the Decoder accepts.
+     * @param decoder The Decoder of a present value.
+     */
+    public static optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+        if (!decoder) {
+            throw new IllegalArgument("Decoder provided to optional is null/undefined");
+        }
+        return new Decoder<T | undefined>(`${decoder.expected} | undefined`, (input, path, errors) =>
+            input === undefined ? undefined : decoder.run(input, path, errors)
+        );
+    }
+
+    /**
+     * Accepts `null` in addition to what the Decoder accepts.
+     * @param decoder The Decoder of a non-null value.
+     */
+    public static nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+        if (!decoder) {
+            throw new IllegalArgument("Decoder provided to nullable is null/undefined");
+        }
+        return new Decoder<T | null>(`${decoder.expected} | null`, (input, path, errors) =>
+            input === null ? null : decoder.run(input, path, errors)
+        );
+    }
+
+    /**
+     * Adds a check on the decoded value.
+     * @param predicate Returns `true` if the decoded value is valid.
+     * @param reason The reason reported when the predicate returns `false`.
+     * @returns A Decoder that also rejects values failing the predicate.
+     */
+    public refine(predicate: (value: T) => boolean, reason: string): Decoder<T> {
+        if (!predicate || !reason) {
+            throw new IllegalArgument("Predicate and reason provided to refine cannot be null/undefined");
+        }
+        return new Decoder<T>(this.expected, (input, path, errors) => {
+            const decoded = this.run(input, path, errors);
+            if (decoded !== INVALID && !predicate(decoded)) {
+                errors.add(path, reason);
+                return INVALID;
+            }
+            return decoded;
+        });
+    }
+
+    /**
+     * Transforms the decoded value, e.g. to parse a date string. Errors thrown by the mapper are not captured.
+     * @param mapper A function that transforms the decoded value.
+     * @returns A Decoder of the transformed value.
+     */
+    public transform<U>(mapper: (value: T) => U): Decoder<U> {
+        if (!mapper) {
+            throw new IllegalArgument("Mapper provided to transform is null/undefined");
+        }
+        return new Decoder<U>(this.expected, (input, path, errors) => {
+            const decoded = this.run(input, path, errors);
+            return decoded === INVALID ? INVALID : mapper(decoded);
+        });
+    }
+
+    /**
+     * Decodes a value.
+     * @param input The value to decode.
+     * @returns The decoded value, or an InvalidRequest with every error keyed by field path.
+     * Errors of the value itself are reported under the empty path.
+     */
+    public decode(input: unknown): Result<T, InvalidRequest> {
+        const errors = InvalidRequest.builder();
+        const decoded = this.run(input, '', errors);
+        return decoded === INVALID ? Result.failure(errors.build()) : Result.ok(decoded);
+    }
+
+    /**
+     * Parses a JSON string and decodes the parsed value.
+     * @param json The JSON text, e.g. a request body.
+     * @returns The decoded value, or an InvalidRequest, under the empty path if the text is not valid JSON.
+     */
+    public decodeJson(json: string): Result<T, InvalidRequest> {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(json);
+        } catch (error) {
+            return Result.failure(new InvalidRequest('', 'is not valid JSON', error));
+        }
+        return this.decode(parsed);
+    }
+}
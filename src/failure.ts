@@ -1,10 +1,56 @@
+import {neverAborted} from "./signals";
+
+/**
+ * The constructor of a Failure class (or subclass), used for class-based checks such as `isA`.
+ * @template F The Failure type created by the constructor.
+ */
+export type FailureClass<F extends Failure = Failure> = abstract new (...args: any[]) => F;
+
+/**
+ * Rest-parameter guard for synchronous-only APIs such as `Result.try`: adds no parameters for a plain
+ * return type, and a required parameter that cannot be satisfied when the supplier returns a Promise.
+ * @template R The return type of the supplier.
+ */
+export type SyncOnly<R> = [R] extends [never] ? [] : R extends PromiseLike<unknown> ? [asyncSupplierNotAllowed: never] : [];
+
+/**
+ * The tagged JSON form of a Failure, produced by `toJSON` and read back by `FailureRegistry.fromJSON`.
+ * Subclasses add their own payload fields, such as `reasons` for an InvalidRequest.
+ */
+export interface FailureJSON {
+    readonly kind: string;
+    readonly message: string;
+    readonly code?: string;
+    readonly context?: Readonly<Record<string, unknown>>;
+    /** A FailureJSON, an ErrorJSON for a plain Error, or the cause itself for any other value. */
+    readonly cause?: unknown;
+    readonly [field: string]: unknown;
+}
+
+/**
+ * The JSON form of a plain (non-Failure) Error in a cause chain.
+ */
+export interface ErrorJSON {
+    readonly name: string;
+    readonly message: string;
+}
+
 /**
  * Represents a custom error type encapsulating a cause.
  * Mimics Java's RuntimeException behavior for controlled error handling.
  */
 export class Failure extends Error {
     // private readonly _message: string; // Use 'private readonly' for properties
-    private readonly _cause?: unknown; // Use 'private readonly' for properties
+
+    /**
+     * The underlying cause of this failure, stored as the standard ES2022 `Error.cause`
+     * so `util.inspect` and error reporters show the chain.
+     */
+    declare public readonly cause?: unknown;
+
+    private readonly _code: string | undefined;
+    private readonly _context: Readonly<Record<string, unknown>>;
+    private readonly _timestamp: number;
 
     // A singleton instance for an "empty" (no) failure
     private static readonly EMPTY_INSTANCE: Failure = new Failure(
@@ -17,7 +63,14 @@ export class Failure extends Error {
     constructor(message: string, cause?: unknown) {
         super(message || "An unknown failure occurred"); // Call Error constructor
         // this._message = message;
-        this._cause = cause;
+        this._code = undefined;
+        this._context = Object.freeze({});
+        this._timestamp = Date.now();
+        this.hideInternalFields();
+        if (cause !== undefined) {
+            // Same shape as `new Error(message, { cause })`: an own, non-enumerable property
+            Object.defineProperty(this, 'cause', { value: cause, writable: true, enumerable: false, configurable: true });
+        }
 
         // Correctly restore the prototype chain *if necessary* for older environments.
         // For modern JS/TS targets (ES6+), this line is often not needed
@@ -31,6 +84,18 @@ export class Failure extends Error {
         }
     }
 
+    /**
+     * Makes the own `_`-prefixed fields non-enumerable, so `util.inspect`, `Object.keys` and error reporters show
+     * a failure like a plain Error. Subclasses call it at the end of their constructor, after setting their fields.
+     */
+    protected hideInternalFields(): void {
+        for (const key of Object.keys(this)) {
+            if (key.startsWith('_')) {
+                Object.defineProperty(this, key, { enumerable: false });
+            }
+        }
+    }
+
     /**
      * Static factory method to get the singleton empty failure.
      */
@@ -72,6 +137,25 @@ export class Failure extends Error {
     }
 
 
+    /**
+     * Static factory method to create a Failure from a thrown value, as `of` and `try` do.
+     * The message is taken from a non-blank Error message, then from a non-blank thrown string,
+     * and falls back to the default message; the thrown value becomes the cause.
+     * @param error The thrown value.
+     * @param defaultMessage The message to use when none can be extracted from the thrown value.
+     */
+    public static fromThrown(error: unknown, defaultMessage: string): Failure {
+        let errorMessage: string;
+        if (error instanceof Error && error.message && error.message.trim() !== '') {
+            errorMessage = error.message;
+        } else if (typeof error === 'string' && error.trim() !== '') {
+            errorMessage = error;
+        } else {
+            errorMessage = defaultMessage;
+        }
+        return Failure.wrap(errorMessage, error);
+    }
+
     /**
      * Overrides the Error.message getter to provide more robust message logic.
      * Prioritizes own message, then cause's message, then a default.
@@ -81,10 +165,109 @@ export class Failure extends Error {
     // }
 
     /**
-     * Gets the underlying cause of this failure.
+     * A stable name for the failure's class, used by `toString`, `isA` and the matchers instead of
+     * `constructor.name`, which minifiers mangle. Built-in subclasses return a string literal, which also
+     * makes `kind` a discriminant for `switch` narrowing; user-defined subclasses should override it the same way
+     * (`get kind(): "NetworkFailure" { return "NetworkFailure"; }`) and otherwise fall back to the constructor name,
+     * in which case `isA` relies on `instanceof` alone.
+     */
+    public get kind(): string {
+        return this.constructor.name;
+    }
+
+    /**
+     * Returns the `kind` of a Failure class without an instance.
+     * @param failureClass The constructor of the Failure class.
+     */
+    public static kindOf(failureClass: FailureClass): string {
+        return Reflect.get(failureClass.prototype, 'kind');
+    }
+
+    /**
+     * Returns the `kind` a Failure class declares itself by overriding the getter, or `undefined` when it
+     * only inherits one. An inherited kind falls back to the constructor name, which two unrelated classes
+     * can share (minifiers rename classes to `e`, `t`, ...), so it cannot tell classes apart.
+     * @param failureClass The constructor of the Failure class.
+     */
+    public static declaredKindOf(failureClass: FailureClass): string | undefined {
+        const prototype: object = failureClass.prototype;
+        if (prototype === Failure.prototype || !Object.prototype.hasOwnProperty.call(prototype, 'kind')) {
+            return undefined;
+        }
+        const kind = Reflect.get(prototype, 'kind');
+        return typeof kind === 'string' ? kind : undefined;
+    }
+
+    /**
+     * Checks if two Failure classes are the same, either by identity or, for copies of a class loaded twice
+     * (a duplicated package, another realm), by the `kind` both declare.
+     * @param first The constructor of a Failure class.
+     * @param second The constructor of another Failure class.
      */
-    public get cause(): unknown | undefined {
-        return this._cause;
+    public static sameClass(first: FailureClass, second: FailureClass): boolean {
+        if (first === second) {
+            return true;
+        }
+        const kind = Failure.declaredKindOf(first);
+        return kind !== undefined && kind === Failure.declaredKindOf(second);
+    }
+
+    /**
+     * A stable, machine-readable code for this failure (e.g. `USER_NOT_FOUND`), if one was attached with `withCode`.
+     */
+    public get code(): string | undefined {
+        return this._code;
+    }
+
+    /**
+     * Structured data about this failure (e.g. entityId, tenant, requestId), attached with `withContext`.
+     */
+    public get context(): Readonly<Record<string, unknown>> {
+        return this._context;
+    }
+
+    /**
+     * When this failure was created. Copies made by `withCode` / `withContext` keep the original time.
+     */
+    public get timestamp(): Date {
+        return new Date(this._timestamp);
+    }
+
+    /**
+     * Returns a copy of this failure, of the same class, with the given code.
+     * @param code The machine-readable code.
+     * @returns A new Failure instance; this instance is left unchanged.
+     */
+    public withCode(code: string): this {
+        if (code === null || code === undefined || code.trim() === '') {
+            throw new Error("Code provided to withCode cannot be null, undefined, or blank");
+        }
+        return this.copyWith({ _code: code });
+    }
+
+    /**
+     * Returns a copy of this failure, of the same class, with the given entries added to its context.
+     * Existing entries with the same keys are replaced.
+     * @param context The entries to add.
+     * @returns A new Failure instance; this instance is left unchanged.
+     */
+    public withContext(context: Readonly<Record<string, unknown>>): this {
+        if (!context) {
+            throw new Error("Context provided to withContext is null/undefined");
+        }
+        return this.copyWith({ _context: Object.freeze({ ...this._context, ...context }) });
+    }
+
+    /**
+     * Copies this instance (prototype, message, stack, cause and subclass fields) and overrides the given fields.
+     */
+    private copyWith(changes: { _code?: string; _context?: Readonly<Record<string, unknown>> }): this {
+        if (this.isEmpty()) {
+            throw new Error("The empty Failure cannot carry a code or context");
+        }
+        const copy = Object.create(Object.getPrototypeOf(this));
+        Object.defineProperties(copy, Object.getOwnPropertyDescriptors(this));
+        return Object.assign(copy, changes);
     }
 
     /**
@@ -92,12 +275,65 @@ export class Failure extends Error {
      * Otherwise, returns itself.
      */
     public unwrap(): Failure {
-        if (Failure.isFailure(this._cause) && this._cause.isPresent()) {
-            return this._cause;
+        if (Failure.isFailure(this.cause) && this.cause.isPresent()) {
+            return this.cause;
         }
         return this; // no further unwrapping possible
     }
 
+    /**
+     * Iterates over the whole cause chain, starting with this failure's cause and following
+     * the `cause` of every Error in the chain. Stops at a non-Error cause or at a cycle.
+     */
+    public *causes(): Generator<unknown, void, undefined> {
+        const seen = new Set<unknown>([this]);
+        let current: unknown = this.cause;
+        while (current !== undefined && !seen.has(current)) {
+            yield current;
+            seen.add(current);
+            current = current instanceof Error ? (current as { cause?: unknown }).cause : undefined;
+        }
+    }
+
+    /**
+     * Returns the deepest cause in the chain, or this failure itself if it has no cause.
+     */
+    public rootCause(): unknown {
+        let root: unknown = this;
+        for (const cause of this.causes()) {
+            root = cause;
+        }
+        return root;
+    }
+
+    /**
+     * Finds the first failure of a specific class (or a subclass) in this failure or its cause chain.
+     * @param failureClass The constructor of the Failure class to look for.
+     * @returns The matching failure, or `undefined` if the chain has none.
+     */
+    public findCause<T extends Failure>(failureClass: FailureClass<T>): T | undefined {
+        if (!failureClass) {
+            throw new Error("Class provided to findCause is null/undefined");
+        }
+        if (this.isA(failureClass)) {
+            return this;
+        }
+        for (const cause of this.causes()) {
+            if (Failure.isFailure(cause) && cause.isA(failureClass) && cause.isPresent()) {
+                return cause;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks if this failure or its cause chain contains a failure of a specific class (or a subclass).
+     * @param failureClass The constructor of the Failure class to look for.
+     */
+    public hasCause<T extends Failure>(failureClass: FailureClass<T>): boolean {
+        return this.findCause(failureClass) !== undefined;
+    }
+
     /**
      * Throws this Failure instance if it represents an actual error (i.e., not the EMPTY instance).
      */
@@ -184,16 +420,17 @@ export class Failure extends Error {
 
     /**
      * Static method to create a Failure instance by running a function in a try-catch block.
-     * @param runnable The function to execute.
+     * To give it a time limit, a deadline or a signal, use `failureOfAsync`.
+     * @param runnable The function to execute; it receives a signal that is never aborted.
      * @returns A Failure instance if an error occurred, or the empty Failure if successful.
      */
-    public static async of(runnable: () => void | Promise<void>): Promise<Failure> {
+    public static async of(runnable: (signal: AbortSignal) => void | Promise<void>): Promise<Failure> {
         if (!runnable) {
             throw new Error("Runnable provided to Failure.of is null/undefined");
         }
 
         try {
-            const result = runnable(); // Execute the supplier
+            const result = runnable(neverAborted()); // Execute the supplier
 
             // Check if the result is a Promise (asynchronously returned value)
             if (result instanceof Promise) {
@@ -201,15 +438,25 @@ export class Failure extends Error {
             }
             return Failure.empty();
         } catch (error: unknown) { // Catch `unknown` as errors can be anything in JS
-            let errorMessage: string;
-            if (error instanceof Error && error.message && error.message.trim() !== '') {
-                errorMessage = error.message;
-            } else if (typeof error === 'string' && error.trim() !== '') {
-                errorMessage = error;
-            } else {
-                errorMessage = "An unexpected error occurred during runnable execution.";
-            }
-            return Failure.wrap(errorMessage, error);
+            return Failure.fromThrown(error, "An unexpected error occurred during runnable execution.");
+        }
+    }
+
+    /**
+     * Synchronous version of `Failure.of`: runs a function in a try-catch block.
+     * Async runnables are rejected at compile time; use `Failure.of` for those.
+     * @param runnable The synchronous function to execute.
+     * @returns A Failure instance if an error was thrown, or the empty Failure if successful.
+     */
+    public static try<R>(runnable: () => R, ...syncOnly: SyncOnly<R>): Failure {
+        if (!runnable) {
+            throw new Error("Runnable provided to Failure.try is null/undefined");
+        }
+        try {
+            runnable();
+            return Failure.empty();
+        } catch (error: unknown) {
+            return Failure.fromThrown(error, "An unexpected error occurred during runnable execution.");
         }
     }
 
@@ -228,8 +475,17 @@ export class Failure extends Error {
             return this.isEmpty() && other.isEmpty(); // Only equal if both are EMPTY
         }
 
-        // Compare messages and causes for non-empty failures
-        return this.message === other.message && this._cause === other._cause;
+        // Compare messages, causes, codes and contexts for non-empty failures (not timestamps)
+        return this.message === other.message
+            && this.cause === other.cause
+            && this._code === other._code
+            && Failure.sameContext(this._context, other._context);
+    }
+
+    private static sameContext(a: Readonly<Record<string, unknown>>, b: Readonly<Record<string, unknown>>): boolean {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length
+            && keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && a[key] === b[key]);
     }
 
     /**
@@ -243,14 +499,46 @@ export class Failure extends Error {
 
     /**
      * Checks if this Failure instance is of a specific class (or a subclass).
+     * Falls back to comparing the classes along the prototype chain with `Failure.sameClass` when `instanceof` fails,
+     * which happens when the class comes from a duplicated copy of the package or from another realm. The fallback
+     * only applies to classes that declare their own `kind`.
      * @param failureClass The constructor of the Failure class to check against.
      * @returns `true` if it's present and an instance of the given class, `false` otherwise.
      */
-    public isA<T extends Failure>(failureClass: new (...args: any[]) => T): this is T {
+    public isA<T extends Failure>(failureClass: FailureClass<T>): this is T {
         if (!failureClass) {
             throw new Error("Class provided to isA is null/undefined");
         }
-        return this.isPresent() && this instanceof failureClass;
+        if (!this.isPresent()) {
+            return false;
+        }
+        if (this instanceof failureClass) {
+            return true;
+        }
+        if (Failure.declaredKindOf(failureClass) === undefined) {
+            return false;
+        }
+        for (let proto = Object.getPrototypeOf(this); proto && proto !== Error.prototype; proto = Object.getPrototypeOf(proto)) {
+            if (Failure.sameClass(proto.constructor, failureClass)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Returns the `kind`s along the prototype chain of a failure, from its own class up to `Failure`.
+     * @param failure The failure to inspect.
+     */
+    public static kindChain(failure: Failure): string[] {
+        const kinds: string[] = [];
+        for (let proto = Object.getPrototypeOf(failure); proto && proto !== Error.prototype; proto = Object.getPrototypeOf(proto)) {
+            const kind = Reflect.get(proto, 'kind');
+            if (typeof kind === 'string' && kinds[kinds.length - 1] !== kind) {
+                kinds.push(kind);
+            }
+        }
+        return kinds;
     }
 
     // Note: hashCode is less common/critical in JS/TS without specific needs for hash-based collections
@@ -279,6 +567,31 @@ export class Failure extends Error {
     //   return hash;
     // }
 
+    /**
+     * Returns the tagged JSON form of this failure: its `kind`, message, code, context and cause chain.
+     * Called by `JSON.stringify`; `FailureRegistry.fromJSON` recreates the failure from it.
+     * Subclasses with a payload extend it, e.g. `{ ...super.toJSON(), reason: this.reason }`.
+     */
+    public toJSON(): FailureJSON {
+        return {
+            kind: this.kind,
+            message: this.message,
+            ...(this._code !== undefined ? { code: this._code } : {}),
+            ...(Object.keys(this._context).length > 0 ? { context: this._context } : {}),
+            ...(this.cause !== undefined && this.cause !== this ? { cause: Failure.causeToJSON(this.cause) } : {}),
+        };
+    }
+
+    private static causeToJSON(cause: unknown): unknown {
+        if (Failure.isFailure(cause)) {
+            return cause.toJSON();
+        }
+        if (cause instanceof Error) {
+            return { name: cause.name, message: cause.message } satisfies ErrorJSON;
+        }
+        return cause;
+    }
+
     /**
      * Overrides Object.toString for a custom string representation.
      */
@@ -287,19 +600,42 @@ export class Failure extends Error {
             return "Failure.EMPTY";
         }
 
-        let result = `${this.constructor.name}{message='${this.message}'`; // Use constructor.name for dynamic class name
-        if (this._cause !== undefined && this._cause !== this) { // Avoid infinite recursion
+        let result = `${this.kind}{message='${this.message}'`; // Use kind, which survives minification
+        result += this.metadataString();
+        if (this.cause !== undefined && this.cause !== this) { // Avoid infinite recursion
             let causeDetails = '';
-            if (this._cause instanceof Error) {
-                causeDetails = `${this._cause.constructor.name}('${this._cause.message}')`;
+            if (Failure.isFailure(this.cause)) {
+                causeDetails = `${this.cause.kind}('${this.cause.message}')`;
+            } else if (this.cause instanceof Error) {
+                causeDetails = `${this.cause.constructor.name}('${this.cause.message}')`;
             } else {
-                causeDetails = `'${String(this._cause)}'`;
+                causeDetails = `'${String(this.cause)}'`;
             }
             result += `, cause=${causeDetails}`;
         }
         result += '}';
         return result;
     }
+
+    /**
+     * The `, code='...', context={...}` part of `toString`, empty when neither is set.
+     */
+    protected metadataString(): string {
+        let result = '';
+        if (this._code !== undefined) {
+            result += `, code='${this._code}'`;
+        }
+        if (Object.keys(this._context).length > 0) {
+            let contextDetails: string;
+            try {
+                contextDetails = JSON.stringify(this._context);
+            } catch {
+                contextDetails = `{${Object.keys(this._context).join(', ')}}`;
+            }
+            result += `, context=${contextDetails}`;
+        }
+        return result;
+    }
 }
 
 // // Example usage:
@@ -0,0 +1,185 @@
+import {type ErrorJSON, Failure, type FailureClass, type FailureJSON} from "./failure";
+import {AggregateFailure} from "./failures/AggregateFailure";
+import {ApiFailure} from "./failures/ApiFailure";
+import {AuthFailure, type AuthFailureReason} from "./failures/AuthFailure";
+import {CancelledFailure} from "./failures/CancelledFailure";
+import {EntityAlreadyExists} from "./failures/EntityAlreadyExists";
+import {type EntityKey, EntityNotFound} from "./failures/EntityNotFound";
+import {EntityValidationFailed, type FieldViolation} from "./failures/EntityValidationFailed";
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {IllegalState} from "./failures/IllegalState";
+import {InternalFailure} from "./failures/InternalFailure";
+import {type FieldErrors, InvalidRequest} from "./failures/InvalidRequest";
+import {OperationNotAllowed} from "./failures/OperationNotAllowed";
+import {RetriesExhausted} from "./failures/RetriesExhausted";
+import {TimeoutFailure} from "./failures/TimeoutFailure";
+
+/**
+ * How to recreate a Failure class from its JSON form.
+ * @template F The Failure type created.
+ */
+export interface FailureType<F extends Failure> {
+    readonly failureClass: FailureClass<F>;
+    /**
+     * Creates the failure from its JSON form and its already recreated cause.
+     * The code and context are restored by the registry afterwards.
+     */
+    readonly fromJSON: (json: FailureJSON, cause: unknown, registry: FailureRegistry) => F;
+}
+
+/**
+ * Drops the fields whose value is `undefined`, so the result fits optional properties.
+ */
+function defined<T extends Record<string, unknown>>(fields: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as { [K in keyof T]?: Exclude<T[K], undefined> };
+}
+
+const DEFAULT_TYPES: readonly FailureType<any>[] = [
+    { failureClass: Failure, fromJSON: (json, cause) => new Failure(json.message, cause) } satisfies FailureType<Failure>,
+    {
+        failureClass: AggregateFailure,
+        fromJSON: (json, _cause, registry) =>
+            new AggregateFailure((json.failures as FailureJSON[]).map((failure) => registry.fromJSON(failure)), json.message),
+    } satisfies FailureType<AggregateFailure>,
+    {
+        failureClass: ApiFailure,
+        fromJSON: (json, cause) => new ApiFailure(json.message, defined({
+            status: json.status as number | undefined,
+            body: json.body,
+            retryable: json.retryable as boolean | undefined,
+        }), cause),
+    } satisfies FailureType<ApiFailure>,
+    {
+        failureClass: AuthFailure,
+        fromJSON: (json, cause) => new AuthFailure(json.message, json.reason as AuthFailureReason | undefined, cause),
+    } satisfies FailureType<AuthFailure>,
+    { failureClass: CancelledFailure, fromJSON: (json, cause) => new CancelledFailure(json.message, cause) } satisfies FailureType<CancelledFailure>,
+    {
+        failureClass: EntityAlreadyExists,
+        fromJSON: (json, cause) => new EntityAlreadyExists(json.message, defined({
+            entityType: json.entityType as string | undefined,
+            key: json.key as EntityKey | undefined,
+        }), cause),
+    } satisfies FailureType<EntityAlreadyExists>,
+    {
+        failureClass: EntityNotFound,
+        fromJSON: (json, cause) => new EntityNotFound(json.message, defined({
+            entityType: json.entityType as string | undefined,
+            key: json.key as EntityKey | undefined,
+        }), cause),
+    } satisfies FailureType<EntityNotFound>,
+    {
+        failureClass: EntityValidationFailed,
+        fromJSON: (json, cause) => new EntityValidationFailed(json.message, defined({
+            entityType: json.entityType as string | undefined,
+            violations: json.violations as FieldViolation[] | undefined,
+        }), cause),
+    } satisfies FailureType<EntityValidationFailed>,
+    { failureClass: IllegalArgument, fromJSON: (json, cause) => new IllegalArgument(json.message, cause) } satisfies FailureType<IllegalArgument>,
+    { failureClass: IllegalState, fromJSON: (json, cause) => new IllegalState(json.message, cause) } satisfies FailureType<IllegalState>,
+    { failureClass: InternalFailure, fromJSON: (json, cause) => new InternalFailure(json.message, cause) } satisfies FailureType<InternalFailure>,
+    {
+        failureClass: InvalidRequest,
+        fromJSON: (json, cause) => new InvalidRequest(json.reasons as FieldErrors, cause),
+    } satisfies FailureType<InvalidRequest>,
+    { failureClass: OperationNotAllowed, fromJSON: (json, cause) => new OperationNotAllowed(json.message, cause) } satisfies FailureType<OperationNotAllowed>,
+    {
+        failureClass: RetriesExhausted,
+        fromJSON: (json, _cause, registry) => new RetriesExhausted(
+            (json.attempts as { attempt: number; failure: FailureJSON; failedAt: number }[])
+                .map(({ attempt, failure, failedAt }) => ({ attempt, failure: registry.fromJSON(failure), failedAt })),
+            json.message
+        ),
+    } satisfies FailureType<RetriesExhausted>,
+    {
+        failureClass: TimeoutFailure,
+        fromJSON: (json, cause) => new TimeoutFailure(json.message, json.timeoutMs as number | undefined, cause),
+    } satisfies FailureType<TimeoutFailure>,
+];
+
+/**
+ * `FailureRegistry` recreates failures from the tagged JSON form produced by `Failure.toJSON`, so failures keep
+ * their class across worker threads, job queues and the network. The class is picked by `kind`, and the cause chain,
+ * code and context are restored. Failures of an unregistered kind are recreated as a plain Failure.
+ */
+export class FailureRegistry {
+    private static readonly DEFAULT_INSTANCE: FailureRegistry = FailureRegistry.empty().registerAll(DEFAULT_TYPES);
+
+    private readonly _types: ReadonlyMap<string, FailureType<any>>;
+
+    private constructor(types: ReadonlyMap<string, FailureType<any>>) {
+        this._types = types;
+    }
+
+    /**
+     * Returns the registry of the built-in failures.
+     */
+    public static defaults(): FailureRegistry {
+        return FailureRegistry.DEFAULT_INSTANCE;
+    }
+
+    /**
+     * Creates a registry without any failure type.
+     */
+    public static empty(): FailureRegistry {
+        return new FailureRegistry(new Map());
+    }
+
+    /**
+     * Adds a failure type, replacing any existing type of the same kind. The registry itself is not changed.
+     * @param type The failure type to add.
+     * @returns A new FailureRegistry with the type.
+     */
+    public register<F extends Failure>(type: FailureType<F>): FailureRegistry {
+        if (!type || !type.failureClass || !type.fromJSON) {
+            throw new IllegalArgument("Type provided to register must have a failureClass and a fromJSON function");
+        }
+        return this.registerAll([type]);
+    }
+
+    private registerAll(types: readonly FailureType<any>[]): FailureRegistry {
+        const registered = new Map(this._types);
+        types.forEach((type) => registered.set(Failure.kindOf(type.failureClass), type));
+        return new FailureRegistry(registered);
+    }
+
+    /**
+     * Recreates a failure from its JSON form.
+     * @param json The JSON form produced by `Failure.toJSON` (after `JSON.parse`, if it was sent as text).
+     * @returns The failure, as an instance of the class registered for its `kind`.
+     * @throws {IllegalArgument} If the JSON is not the JSON form of a failure.
+     */
+    public fromJSON(json: FailureJSON): Failure {
+        if (!FailureRegistry.isFailureJSON(json)) {
+            throw new IllegalArgument("JSON provided to fromJSON is not the JSON form of a Failure");
+        }
+        const cause = this.causeFromJSON(json.cause);
+        const type = this._types.get(json.kind);
+        let failure: Failure = type ? type.fromJSON(json, cause, this) : new Failure(json.message, cause);
+        if (typeof json.code === 'string') {
+            failure = failure.withCode(json.code);
+        }
+        if (json.context && Object.keys(json.context).length > 0) {
+            failure = failure.withContext(json.context);
+        }
+        return failure;
+    }
+
+    private causeFromJSON(cause: unknown): unknown {
+        if (FailureRegistry.isFailureJSON(cause)) {
+            return this.fromJSON(cause);
+        }
+        if (typeof cause === 'object' && cause !== null && Object.keys(cause).length === 2
+            && typeof (cause as ErrorJSON).name === 'string' && typeof (cause as ErrorJSON).message === 'string') {
+            const error = new Error((cause as ErrorJSON).message);
+            error.name = (cause as ErrorJSON).name;
+            return error;
+        }
+        return cause;
+    }
+
+    private static isFailureJSON(json: unknown): json is FailureJSON {
+        return typeof json === 'object' && json !== null
+            && typeof (json as FailureJSON).kind === 'string' && typeof (json as FailureJSON).message === 'string';
+    }
+}
@@ -1,5 +1,46 @@
 import { Failure } from './failure'; // Assuming Failure class is in 'failure.ts'
+import { type CallOptions, isInterruption, runWithin } from './deadline';
+import { AggregateFailure } from './failures/AggregateFailure';
+import type { ApiFailure } from './failures/ApiFailure';
+import type { AuthFailure } from './failures/AuthFailure';
+import type { CancelledFailure } from './failures/CancelledFailure';
+import type { EntityAlreadyExists } from './failures/EntityAlreadyExists';
+import type { EntityNotFound } from './failures/EntityNotFound';
+import type { EntityValidationFailed } from './failures/EntityValidationFailed';
 import { IllegalArgument } from './failures/IllegalArgument'; // Assuming IllegalArgument is in 'IllegalArgument.ts'
+import type { IllegalState } from './failures/IllegalState';
+import type { InternalFailure } from './failures/InternalFailure';
+import type { InvalidRequest } from './failures/InvalidRequest';
+import type { OperationNotAllowed } from './failures/OperationNotAllowed';
+import type { RetriesExhausted } from './failures/RetriesExhausted';
+import type { TimeoutFailure } from './failures/TimeoutFailure';
+import { Result } from './result';
+import { ResultAsync } from './resultAsync';
+
+/**
+ * The union of the built-in failures. Each member has a literal `kind`, so a `switch` on `failure.kind`
+ * narrows to the matching class and can be checked for exhaustiveness.
+ */
+export type KnownFailure =
+    | AggregateFailure
+    | ApiFailure
+    | AuthFailure
+    | CancelledFailure
+    | EntityAlreadyExists
+    | EntityNotFound
+    | EntityValidationFailed
+    | IllegalArgument
+    | IllegalState
+    | InternalFailure
+    | InvalidRequest
+    | OperationNotAllowed
+    | RetriesExhausted
+    | TimeoutFailure;
+
+/**
+ * The `kind` of every built-in failure.
+ */
+export type FailureKind = KnownFailure['kind'];
 
 /**
  * Returns the singleton empty Failure instance.
@@ -67,6 +108,39 @@ export function wrapExistingFailure(message: string | null | undefined, original
 }
 
 
+/**
+ * Aggregates multiple Failure instances into a single AggregateFailure, flattening nested aggregates.
+ * Useful when batch jobs or parallel fan-out need to report every failure, not just the first one.
+ * @param failures The failures to aggregate.
+ * @returns A new AggregateFailure instance.
+ * @throws {IllegalArgument} If the list of failures is null, undefined or empty.
+ */
+export function aggregateFailures(failures: readonly Failure[]): AggregateFailure {
+    if (failures === null || failures === undefined || failures.length === 0) {
+        throw new IllegalArgument("Failures to aggregate cannot be null, undefined or empty.");
+    }
+    return AggregateFailure.from(failures);
+}
+
+/**
+ * Runs a sync or async runnable like `Failure.of`, but returns a chainable `ResultAsync`
+ * that is successful when the runnable completes and failed when it throws.
+ * With `timeoutMs`, a `deadline` or a `signal`, it fails with a TimeoutFailure or a CancelledFailure
+ * instead of waiting for the runnable, whose signal is aborted so it can stop its own work.
+ * @param runnable The function to execute; it receives an AbortSignal.
+ * @param options The optional time limit, deadline and signal.
+ * @returns A ResultAsync resolving to `undefined`, or to the Failure if an error occurred.
+ */
+export function failureOfAsync(runnable: (signal: AbortSignal) => void | Promise<void>, options?: CallOptions): ResultAsync<void> {
+    const outcome = options
+        ? runWithin(runnable, options).then(() => Failure.empty(), (error: unknown) =>
+            isInterruption(error) ? error : Failure.fromThrown(error, "An unexpected error occurred during runnable execution."))
+        : Failure.of(runnable);
+    return ResultAsync.from(outcome.then((failure) =>
+        failure.isPresent() ? Result.failure<void>(failure) : Result.ok<void, Failure>(undefined)
+    ));
+}
+
 // // --- Example Usage ---
 // console.log("\n--- Failure Helpers Examples ---");
 //
@@ -0,0 +1,83 @@
+import {Failure, type FailureClass, type FailureJSON} from "../failure";
+import {IllegalArgument} from "./IllegalArgument";
+
+export class AggregateFailure extends Failure {
+    private readonly _failures: readonly Failure[];
+
+    constructor(failures: readonly Failure[], message?: string) {
+        if (!failures || failures.length === 0) {
+            throw new IllegalArgument("AggregateFailure requires at least one failure.");
+        }
+        super(message || `${failures.length} failure(s) occurred: ${failures.map((failure) => failure.message).join('; ')}`);
+        this._failures = Object.freeze([...failures]);
+        this.hideInternalFields();
+    }
+
+    public get kind(): "AggregateFailure" {
+        return "AggregateFailure";
+    }
+
+    /**
+     * Creates an AggregateFailure from a list of failures, flattening any nested AggregateFailures.
+     * @param failures The failures to aggregate.
+     */
+    public static from(failures: readonly Failure[]): AggregateFailure {
+        return new AggregateFailure(failures.flatMap((failure) =>
+            failure instanceof AggregateFailure ? failure.flatten() : [failure]
+        ));
+    }
+
+    /**
+     * The direct child failures, in order.
+     */
+    public get failures(): readonly Failure[] {
+        return this._failures;
+    }
+
+    /**
+     * Returns the leaf failures, replacing every nested AggregateFailure by its own children, recursively.
+     */
+    public flatten(): Failure[] {
+        return this._failures.flatMap((failure) =>
+            failure instanceof AggregateFailure ? failure.flatten() : [failure]
+        );
+    }
+
+    /**
+     * Checks if any leaf failure is of a specific class (or a subclass), as `isA` does for a single failure.
+     * @param failureClass The constructor of the Failure class to check against.
+     */
+    public containsA<T extends Failure>(failureClass: FailureClass<T>): boolean {
+        return this.flatten().some((failure) => failure.isA(failureClass));
+    }
+
+    /**
+     * Checks if every leaf failure is of a specific class (or a subclass).
+     * @param failureClass The constructor of the Failure class to check against.
+     */
+    public everyIsA<T extends Failure>(failureClass: FailureClass<T>): boolean {
+        return this.flatten().every((failure) => failure.isA(failureClass));
+    }
+
+    /**
+     * Returns the leaf failures of a specific class (or a subclass).
+     * @param failureClass The constructor of the Failure class to filter on.
+     */
+    public filterA<T extends Failure>(failureClass: FailureClass<T>): T[] {
+        return this.flatten().filter((failure): failure is T => failure.isA(failureClass));
+    }
+
+    public toJSON(): FailureJSON {
+        return { ...super.toJSON(), failures: this._failures.map((failure) => failure.toJSON()) };
+    }
+
+    /**
+     * Lists every child failure, one per line, after the aggregate message.
+     */
+    public toString(): string {
+        const children = this._failures
+            .map((failure) => failure.toString().split('\n').map((line) => `  ${line}`).join('\n'))
+            .join(',\n');
+        return `${this.kind}{message='${this.message}'${this.metadataString()}, failures=[\n${children}\n]}`;
+    }
+}
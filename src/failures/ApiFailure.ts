@@ -1,7 +1,62 @@
-import {Failure} from "../failure";
+import {Failure, type FailureJSON} from "../failure";
+
+export interface ApiFailureDetails {
+    readonly status?: number;
+    readonly body?: unknown;
+    readonly retryable?: boolean;
+}
 
 export class ApiFailure extends Failure {
-    constructor(message: string) {
-        super(message);
+    private readonly _status: number | undefined;
+    private readonly _body: unknown;
+    private readonly _retryable: boolean;
+
+    constructor(message: string, details: ApiFailureDetails = {}, cause?: unknown) {
+        super(message, cause);
+        this._status = details.status;
+        this._body = details.body;
+        this._retryable = details.retryable ?? false;
+        this.hideInternalFields();
+    }
+
+    public get kind(): "ApiFailure" {
+        return "ApiFailure";
+    }
+
+    /**
+     * Creates an ApiFailure from an upstream response, e.g. `Upstream API responded with status 503.`
+     * Responses with status 408, 429 or 5xx are marked retryable.
+     * @param status The upstream HTTP status.
+     * @param body The optional response body.
+     * @param cause The optional underlying cause.
+     */
+    public static fromResponse(status: number, body?: unknown, cause?: unknown): ApiFailure {
+        const retryable = status === 408 || status === 429 || status >= 500;
+        return new ApiFailure(`Upstream API responded with status ${status}.`, { status, body, retryable }, cause);
+    }
+
+    /**
+     * The upstream HTTP status, if known.
+     */
+    public get status(): number | undefined {
+        return this._status;
+    }
+
+    /**
+     * The upstream response body, if captured.
+     */
+    public get body(): unknown {
+        return this._body;
+    }
+
+    /**
+     * Whether repeating the call may succeed.
+     */
+    public get retryable(): boolean {
+        return this._retryable;
+    }
+
+    public toJSON(): FailureJSON {
+        return { ...super.toJSON(), status: this._status, body: this._body, retryable: this._retryable };
     }
 }
@@ -1,7 +1,49 @@
-import {Failure} from "../failure";
+import {Failure, type FailureJSON} from "../failure";
+
+/**
+ * Why access was refused: the caller is not authenticated, or is authenticated but not allowed.
+ */
+export type AuthFailureReason = 'unauthenticated' | 'forbidden';
 
 export class AuthFailure extends Failure {
-    constructor(message: string) {
-        super(message);
+    private readonly _reason: AuthFailureReason | undefined;
+
+    constructor(message: string, reason?: AuthFailureReason, cause?: unknown) {
+        super(message, cause);
+        this._reason = reason;
+        this.hideInternalFields();
+    }
+
+    public get kind(): "AuthFailure" {
+        return "AuthFailure";
+    }
+
+    /**
+     * Creates an AuthFailure for a caller that is not (or no longer) authenticated.
+     * @param message An optional message; defaults to `Authentication is required.`
+     * @param cause The optional underlying cause.
+     */
+    public static unauthenticated(message?: string, cause?: unknown): AuthFailure {
+        return new AuthFailure(message || "Authentication is required.", 'unauthenticated', cause);
+    }
+
+    /**
+     * Creates an AuthFailure for an authenticated caller that lacks permission.
+     * @param action The optional action that was refused, e.g. `delete order 42`.
+     * @param cause The optional underlying cause.
+     */
+    public static forbidden(action?: string, cause?: unknown): AuthFailure {
+        return new AuthFailure(action ? `Not permitted to ${action}.` : "Access is forbidden.", 'forbidden', cause);
+    }
+
+    /**
+     * The reason access was refused, if known.
+     */
+    public get reason(): AuthFailureReason | undefined {
+        return this._reason;
+    }
+
+    public toJSON(): FailureJSON {
+        return { ...super.toJSON(), reason: this._reason };
     }
 }
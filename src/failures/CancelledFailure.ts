@@ -0,0 +1,19 @@
+import {Failure} from "../failure";
+
+export class CancelledFailure extends Failure {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+    }
+
+    public get kind(): "CancelledFailure" {
+        return "CancelledFailure";
+    }
+
+    /**
+     * Creates a CancelledFailure for an aborted signal, keeping the abort reason as the cause.
+     * @param signal The aborted signal.
+     */
+    public static fromSignal(signal: AbortSignal): CancelledFailure {
+        return new CancelledFailure("Operation was cancelled.", signal.reason);
+    }
+}
@@ -1,8 +1,46 @@
-import {Failure} from "../failure";
+import {Failure, type FailureJSON} from "../failure";
+import {describeEntityKey, type EntityKey} from "./EntityNotFound";
+
+export interface EntityAlreadyExistsDetails {
+    readonly entityType?: string;
+    readonly key?: EntityKey;
+}
 
 export class EntityAlreadyExists extends Failure {
-    constructor(message: string) {
-        super(message);
+    private readonly _entityType: string | undefined;
+    private readonly _key: EntityKey | undefined;
+
+    constructor(message: string, details: EntityAlreadyExistsDetails = {}, cause?: unknown) {
+        super(message, cause);
+        this._entityType = details.entityType;
+        this._key = details.key;
+        this.hideInternalFields();
+    }
+
+    public get kind(): "EntityAlreadyExists" {
+        return "EntityAlreadyExists";
+    }
+
+    /**
+     * Creates an EntityAlreadyExists with a standard message, e.g. `User with email='a@b.c' already exists.`
+     * @param entityType The type of the conflicting entity.
+     * @param key The id or key fields that are already taken.
+     * @param cause The optional underlying cause.
+     */
+    public static forEntity(entityType: string, key: EntityKey, cause?: unknown): EntityAlreadyExists {
+        return new EntityAlreadyExists(`${entityType} with ${describeEntityKey(key)} already exists.`, { entityType, key }, cause);
+    }
+
+    public get entityType(): string | undefined {
+        return this._entityType;
+    }
+
+    public get key(): EntityKey | undefined {
+        return this._key;
+    }
+
+    public toJSON(): FailureJSON {
+        return { ...super.toJSON(), entityType: this._entityType, key: this._key };
     }
 }
 
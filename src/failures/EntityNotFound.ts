@@ -1,7 +1,59 @@
-import {Failure} from "../failure";
+import {Failure, type FailureJSON} from "../failure";
+
+/**
+ * Identifies an entity: a single id, or the key fields that identify it (e.g. `{ email: "a@b.c" }`).
+ */
+export type EntityKey = string | number | Readonly<Record<string, string | number>>;
+
+/**
+ * Formats an entity key for a failure message: `id '42'` or `email='a@b.c', tenant='t1'`.
+ */
+export function describeEntityKey(key: EntityKey): string {
+    if (typeof key === 'object' && key !== null) {
+        return Object.entries(key).map(([field, value]) => `${field}='${value}'`).join(', ');
+    }
+    return `id '${key}'`;
+}
+
+export interface EntityNotFoundDetails {
+    readonly entityType?: string;
+    readonly key?: EntityKey;
+}
 
 export class EntityNotFound extends Failure {
-    constructor(message: string) {
-        super(message);
+    private readonly _entityType: string | undefined;
+    private readonly _key: EntityKey | undefined;
+
+    constructor(message: string, details: EntityNotFoundDetails = {}, cause?: unknown) {
+        super(message, cause);
+        this._entityType = details.entityType;
+        this._key = details.key;
+        this.hideInternalFields();
+    }
+
+    public get kind(): "EntityNotFound" {
+        return "EntityNotFound";
+    }
+
+    /**
+     * Creates an EntityNotFound with a standard message, e.g. `User with id '42' not found.`
+     * @param entityType The type of the missing entity.
+     * @param key The id or key fields that were looked up.
+     * @param cause The optional underlying cause.
+     */
+    public static forEntity(entityType: string, key: EntityKey, cause?: unknown): EntityNotFound {
+        return new EntityNotFound(`${entityType} with ${describeEntityKey(key)} not found.`, { entityType, key }, cause);
+    }
+
+    public get entityType(): string | undefined {
+        return this._entityType;
+    }
+
+    public get key(): EntityKey | undefined {
+        return this._key;
+    }
+
+    public toJSON(): FailureJSON {
+        return { ...super.toJSON(), entityType: this._entityType, key: this._key };
     }
 }
@@ -1,7 +1,67 @@
-import {Failure} from "../failure";
+import {Failure, type FailureJSON} from "../failure";
+import type {InvalidRequest} from "./InvalidRequest";
+
+/**
+ * A single rule an entity field broke.
+ */
+export interface FieldViolation {
+    readonly field: string;
+    readonly message: string;
+    readonly code?: string;
+}
+
+export interface EntityValidationFailedDetails {
+    readonly entityType?: string;
+    readonly violations?: readonly FieldViolation[];
+}
 
 export class EntityValidationFailed extends Failure {
-    constructor(message: string) {
-        super(message);
+    private readonly _entityType: string | undefined;
+    private readonly _violations: readonly FieldViolation[];
+
+    constructor(message: string, details: EntityValidationFailedDetails = {}, cause?: unknown) {
+        super(message, cause);
+        this._entityType = details.entityType;
+        this._violations = Object.freeze([...(details.violations ?? [])]);
+        this.hideInternalFields();
+    }
+
+    public get kind(): "EntityValidationFailed" {
+        return "EntityValidationFailed";
+    }
+
+    /**
+     * Creates an EntityValidationFailed with a standard message listing the violations,
+     * e.g. `Order failed validation: quantity: must be positive; sku: is required`
+     * @param entityType The type of the invalid entity.
+     * @param violations The broken field rules.
+     * @param cause The optional underlying cause.
+     */
+    public static forEntity(entityType: string, violations: readonly FieldViolation[], cause?: unknown): EntityValidationFailed {
+        const listed = violations.map((violation) => `${violation.field}: ${violation.message}`).join('; ');
+        return new EntityValidationFailed(`${entityType} failed validation: ${listed}`, { entityType, violations }, cause);
+    }
+
+    /**
+     * Creates an EntityValidationFailed from the field errors of an InvalidRequest, one violation per reason.
+     * @param entityType The type of the invalid entity.
+     * @param invalid The InvalidRequest holding the field errors.
+     */
+    public static fromInvalidRequest(entityType: string, invalid: InvalidRequest): EntityValidationFailed {
+        const violations: FieldViolation[] = [];
+        invalid.reasons.forEach((reasons, field) => reasons.forEach((message) => violations.push({ field, message })));
+        return EntityValidationFailed.forEntity(entityType, violations, invalid.cause);
+    }
+
+    public get entityType(): string | undefined {
+        return this._entityType;
+    }
+
+    public get violations(): readonly FieldViolation[] {
+        return this._violations;
+    }
+
+    public toJSON(): FailureJSON {
+        return { ...super.toJSON(), entityType: this._entityType, violations: this._violations };
     }
 }
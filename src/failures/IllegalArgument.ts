@@ -1,7 +1,21 @@
 import {Failure} from "../failure";
 
 export class IllegalArgument extends Failure {
-    constructor(message: string) {
-        super(message);
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+    }
+
+    public get kind(): "IllegalArgument" {
+        return "IllegalArgument";
+    }
+
+    /**
+     * Creates an IllegalArgument with a standard message, e.g. `Illegal argument 'limit': must be positive.`
+     * @param name The name of the argument.
+     * @param reason Why the value is not accepted.
+     * @param cause The optional underlying cause.
+     */
+    public static forArgument(name: string, reason: string, cause?: unknown): IllegalArgument {
+        return new IllegalArgument(`Illegal argument '${name}': ${reason}.`, cause);
     }
 }
@@ -1,7 +1,21 @@
 import {Failure} from "../failure";
 
 export class IllegalState extends Failure {
-    constructor(message: string) {
-        super(message);
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+    }
+
+    public get kind(): "IllegalState" {
+        return "IllegalState";
+    }
+
+    /**
+     * Creates an IllegalState with a standard message, e.g. `Illegal state: expected OPEN but was CLOSED.`
+     * @param expected The state the operation requires.
+     * @param actual The state that was found.
+     * @param cause The optional underlying cause.
+     */
+    public static expected(expected: string, actual: string, cause?: unknown): IllegalState {
+        return new IllegalState(`Illegal state: expected ${expected} but was ${actual}.`, cause);
     }
 }
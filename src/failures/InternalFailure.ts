@@ -1,7 +1,21 @@
 import {Failure} from "../failure";
 
 export class InternalFailure extends Failure {
-    constructor(message: string) {
-        super(message);
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+    }
+
+    public get kind(): "InternalFailure" {
+        return "InternalFailure";
+    }
+
+    /**
+     * Wraps an unexpected error, e.g. `An internal error occurred: connection reset`.
+     * @param cause The unexpected error, kept as the cause.
+     * @param message An optional message; defaults to one built from the cause.
+     */
+    public static unexpected(cause: unknown, message?: string): InternalFailure {
+        const detail = cause instanceof Error ? cause.message : typeof cause === 'string' ? cause : '';
+        return new InternalFailure(message || (detail.trim() !== '' ? `An internal error occurred: ${detail}` : "An internal error occurred."), cause);
     }
 }
@@ -1,46 +1,228 @@
-import {Failure} from "../failure";
+import {Failure, type FailureJSON} from "../failure";
+import {IllegalArgument} from "./IllegalArgument";
+import {IllegalState} from "./IllegalState";
+
+/**
+ * Field errors as a plain object, keyed by field path (e.g. `email`, `address.city`, `items[2].price`).
+ * This is the shape returned by `toFieldErrors`, ready to be sent in an API response body.
+ */
+export type FieldErrors = Readonly<Record<string, readonly string[]>>;
+
+/**
+ * Joins field path segments, writing numbers as indexes: `fieldPath("items", 2, "price")` gives `items[2].price`.
+ * Segments may themselves be paths, so `fieldPath("order", "items[2].price")` gives `order.items[2].price`.
+ * @param segments The field names and array indexes, outermost first.
+ * @returns The joined path.
+ */
+export function fieldPath(...segments: readonly (string | number)[]): string {
+    return segments.reduce<string>((path, segment) => {
+        if (typeof segment === 'number') {
+            return `${path}[${segment}]`;
+        }
+        if (path === '' || segment === '') {
+            return path + segment;
+        }
+        return segment.startsWith('[') ? path + segment : `${path}.${segment}`;
+    }, '');
+}
 
 export class InvalidRequest extends Failure {
-    private readonly _reasons?: Map<string, string[]>;
-
-    // 3. Constructor for a single key-reason pair
-    constructor(key: string, reason: string);
-    // 4. Constructor for a map of reasons
-    constructor(reasons: Map<string, string[]>);
-    // 5. Unified implementation of the constructors
-    constructor(keyOrReasons: string | Map<string, string[]>, reason?: string) {
-        let message: string;
-        let reasonsMap: Map<string, string[]>;
-
-        if (typeof keyOrReasons === 'string' && reason !== undefined) {
-            // Case 1: (key, reason) constructor
-            const key = keyOrReasons;
-            message = `Invalid request for key ${key} with reasons ${reason}`;
-            reasonsMap = new Map([[key, [reason]]]); // Create a new Map with the single entry
-        } else if (keyOrReasons instanceof Map) {
-            // Case 2: (reasonsMap) constructor
-            reasonsMap = keyOrReasons;
-            // For a good message, convert the map to a readable string
-            const reasonEntries = Array.from(reasonsMap.entries())
-                .map(([k, v]) => `${k}: [${v.join(', ')}]`)
-                .join('; ');
-            message = `Invalid request with reasons {${reasonEntries}}`;
-        } else {
-            // Fallback or error for unexpected constructor calls
-            throw new Error("Invalid arguments provided to InvalidRequest constructor.");
-        }
-
-        super(message); // Call the parent Failure's constructor with the generated message
-
-        this._reasons = reasonsMap; // Assign the determined reasons map
-
-        // 6. Recapture the stack trace for accurate debugging
-        if ((Error as any).captureStackTrace) {
-            (Error as any).captureStackTrace(this, InvalidRequest);
-        } else {
-            Object.setPrototypeOf(this, InvalidRequest.prototype);
+    private readonly _reasons: ReadonlyMap<string, readonly string[]>;
+
+    /**
+     * Creates an InvalidRequest for a single field.
+     * @param key The field path.
+     * @param reason Why the field is invalid.
+     * @param cause The optional underlying cause.
+     * @throws {IllegalArgument} If the reason is not a non-blank string.
+     */
+    constructor(key: string, reason: string, cause?: unknown);
+    /**
+     * Creates an InvalidRequest from the reasons of several fields.
+     * @param reasons The reasons keyed by field path, as a Map or a plain object.
+     * @param cause The optional underlying cause.
+     * @throws {IllegalArgument} If there are no reasons (an empty Map or object), or a field or reason is not
+     * a non-blank string. An InvalidRequest always reports at least one field; collect optional errors with
+     * `InvalidRequest.builder()` and check `hasReasons` before building.
+     */
+    constructor(reasons: ReadonlyMap<string, readonly string[]> | FieldErrors, cause?: unknown);
+    constructor(keyOrReasons: string | ReadonlyMap<string, readonly string[]> | FieldErrors, reasonOrCause?: unknown, cause?: unknown) {
+        const single = typeof keyOrReasons === 'string';
+        const reasons = single
+            ? InvalidRequest.normalize(new Map([[keyOrReasons, [reasonOrCause as string]]]))
+            : InvalidRequest.normalize(keyOrReasons instanceof Map ? keyOrReasons : Object.entries(keyOrReasons ?? {}));
+
+        const message = single
+            ? `Invalid request for key ${keyOrReasons} with reasons ${reasonOrCause}`
+            : `Invalid request with reasons {${Array.from(reasons.entries()).map(([k, v]) => `${k}: [${v.join(', ')}]`).join('; ')}}`;
+        super(message, single ? cause : reasonOrCause);
+        this._reasons = reasons;
+        this.hideInternalFields();
+    }
+
+    public get kind(): "InvalidRequest" {
+        return "InvalidRequest";
+    }
+
+    /**
+     * Starts an InvalidRequestBuilder, to collect field errors one at a time.
+     */
+    public static builder(): InvalidRequestBuilder {
+        return new InvalidRequestBuilder();
+    }
+
+    /**
+     * The reasons keyed by field path, in the order the fields were first reported.
+     */
+    public get reasons(): ReadonlyMap<string, readonly string[]> {
+        return this._reasons;
+    }
+
+    /**
+     * The field paths that have reasons.
+     */
+    public get fields(): string[] {
+        return Array.from(this._reasons.keys());
+    }
+
+    /**
+     * Returns the reasons reported for a field, or an empty array if it has none.
+     * @param field The field path.
+     */
+    public reasonsFor(field: string): readonly string[] {
+        return this._reasons.get(field) ?? [];
+    }
+
+    /**
+     * Checks if a field has reasons.
+     * @param field The field path.
+     */
+    public hasReasonsFor(field: string): boolean {
+        return this._reasons.has(field);
+    }
+
+    /**
+     * Combines the reasons of both requests; reasons already reported for a field are not repeated.
+     * The cause, code and context of this request are not carried over.
+     * @param other The InvalidRequest to merge into this one.
+     * @returns A new InvalidRequest with the reasons of both.
+     */
+    public merge(other: InvalidRequest): InvalidRequest {
+        if (!other) {
+            throw new IllegalArgument("InvalidRequest provided to merge is null/undefined");
         }
+        return InvalidRequest.builder().addAll(this).addAll(other).build();
+    }
+
+    /**
+     * Nests every field path under a parent, e.g. `city` becomes `address.city` with `prefix("address")`
+     * and `price` becomes `items[2].price` with `prefix("items", 2)`.
+     * The cause, code and context of this request are not carried over.
+     * @param segments The parent field names and array indexes, outermost first.
+     * @returns A new InvalidRequest with the prefixed paths.
+     */
+    public prefix(...segments: readonly (string | number)[]): InvalidRequest {
+        const prefix = fieldPath(...segments);
+        const prefixed = new Map<string, readonly string[]>();
+        this._reasons.forEach((reasons, field) => prefixed.set(fieldPath(prefix, field), reasons));
+        return new InvalidRequest(prefixed);
+    }
+
+    /**
+     * Returns the reasons as a plain object keyed by field path, e.g. for an API response body.
+     */
+    public toFieldErrors(): Record<string, string[]> {
+        const errors: Record<string, string[]> = {};
+        this._reasons.forEach((reasons, field) => {
+            errors[field] = [...reasons];
+        });
+        return errors;
     }
 
+    public toJSON(): FailureJSON {
+        return { ...super.toJSON(), reasons: this.toFieldErrors() };
+    }
+
+    /**
+     * Copies and freezes the reasons, dropping duplicate reasons per field.
+     * @throws {IllegalArgument} If there are no reasons, or a field or reason is not a non-blank string.
+     */
+    private static normalize(entries: Iterable<readonly [string, readonly string[]]>): ReadonlyMap<string, readonly string[]> {
+        const reasons = new Map<string, readonly string[]>();
+        for (const [field, fieldReasons] of entries) {
+            if (typeof field !== 'string' || !Array.isArray(fieldReasons) || fieldReasons.length === 0
+                || fieldReasons.some((reason) => typeof reason !== 'string' || reason.trim() === '')) {
+                throw new IllegalArgument(`Invalid reasons provided to InvalidRequest for field '${String(field)}'`);
+            }
+            reasons.set(field, Object.freeze([...new Set(fieldReasons)]));
+        }
+        if (reasons.size === 0) {
+            throw new IllegalArgument("InvalidRequest requires at least one field reason.");
+        }
+        return reasons;
+    }
 }
 
+/**
+ * Collects field errors and builds a single InvalidRequest from them:
+ * `InvalidRequest.builder().add("email", "is required").addAll(addressErrors, "address").build()`.
+ */
+export class InvalidRequestBuilder {
+    private readonly _reasons = new Map<string, string[]>();
+
+    /**
+     * Adds a reason for a field; adding the same reason twice has no effect.
+     * @param field The field path.
+     * @param reason Why the field is invalid.
+     * @returns This builder.
+     */
+    public add(field: string, reason: string): this {
+        if (typeof field !== 'string' || !reason) {
+            throw new IllegalArgument("Field and reason provided to add cannot be null/undefined");
+        }
+        const reasons = this._reasons.get(field);
+        if (!reasons) {
+            this._reasons.set(field, [reason]);
+        } else if (!reasons.includes(reason)) {
+            reasons.push(reason);
+        }
+        return this;
+    }
+
+    /**
+     * Adds every reason of an InvalidRequest or of a field errors object, optionally nested under a parent path.
+     * @param reasons The reasons to add.
+     * @param prefix The optional parent path, e.g. `address` or `items[2]`.
+     * @returns This builder.
+     */
+    public addAll(reasons: InvalidRequest | ReadonlyMap<string, readonly string[]> | FieldErrors, prefix: string = ''): this {
+        if (!reasons) {
+            throw new IllegalArgument("Reasons provided to addAll are null/undefined");
+        }
+        const entries: Iterable<[string, readonly string[]]> = reasons instanceof InvalidRequest ? reasons.reasons.entries()
+            : reasons instanceof Map ? reasons.entries()
+            : Object.entries(reasons);
+        for (const [field, fieldReasons] of entries) {
+            fieldReasons.forEach((reason) => this.add(fieldPath(prefix, field), reason));
+        }
+        return this;
+    }
+
+    /**
+     * Checks if any reason has been added.
+     */
+    public hasReasons(): boolean {
+        return this._reasons.size > 0;
+    }
+
+    /**
+     * Builds the InvalidRequest.
+     * @throws {IllegalState} If no reason has been added; check `hasReasons` first when errors are optional.
+     */
+    public build(): InvalidRequest {
+        if (!this.hasReasons()) {
+            throw new IllegalState("Cannot build an InvalidRequest without any field reason.");
+        }
+        return new InvalidRequest(this._reasons);
+    }
+}
@@ -1,7 +1,22 @@
 import {Failure} from "../failure";
 
 export class OperationNotAllowed extends Failure {
-    constructor(message: string) {
-        super(message);
+    constructor(message: string, cause?: unknown) {
+        super(message, cause);
+    }
+
+    public get kind(): "OperationNotAllowed" {
+        return "OperationNotAllowed";
+    }
+
+    /**
+     * Creates an OperationNotAllowed with a standard message, e.g. `Operation 'cancel order' is not allowed: order is shipped.`
+     * @param operation The refused operation.
+     * @param reason The optional business rule that refused it.
+     * @param cause The optional underlying cause.
+     */
+    public static forOperation(operation: string, reason?: string, cause?: unknown): OperationNotAllowed {
+        return new OperationNotAllowed(`Operation '${operation}' is not allowed${reason ? `: ${reason}` : ''}.`, cause);
     }
 }
+
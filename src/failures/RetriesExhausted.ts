@@ -0,0 +1,80 @@
+import {Failure, type FailureJSON} from "../failure";
+import {IllegalArgument} from "./IllegalArgument";
+
+/**
+ * One failed attempt of a retried operation.
+ */
+export interface RetryAttempt {
+    /** The attempt number, starting at 1. */
+    readonly attempt: number;
+    readonly failure: Failure;
+    /** The clock time at which the attempt failed. */
+    readonly failedAt: number;
+}
+
+export class RetriesExhausted extends Failure {
+    private readonly _attempts: readonly RetryAttempt[];
+
+    /**
+     * @param attempts Every failed attempt, in order; the last failure becomes the cause,
+     * and the earlier ones are reached through `causes`, `findCause` and `hasCause`.
+     * @param message An optional message; defaults to `Operation failed after 3 attempts: <last message>`.
+     */
+    constructor(attempts: readonly RetryAttempt[], message?: string) {
+        const last = attempts?.[attempts.length - 1];
+        if (!last) {
+            throw new IllegalArgument("RetriesExhausted requires at least one attempt.");
+        }
+        super(message || `Operation failed after ${attempts.length} attempts: ${last.failure.message}`, last.failure);
+        this._attempts = Object.freeze([...attempts]);
+        this.hideInternalFields();
+    }
+
+    public get kind(): "RetriesExhausted" {
+        return "RetriesExhausted";
+    }
+
+    /**
+     * Every failed attempt, in order.
+     */
+    public get attempts(): readonly RetryAttempt[] {
+        return this._attempts;
+    }
+
+    /**
+     * The failure of the last attempt, which is also the cause.
+     */
+    public get lastFailure(): Failure {
+        return (this._attempts[this._attempts.length - 1] as RetryAttempt).failure;
+    }
+
+    /**
+     * Iterates over the cause chain of the last attempt, then over the failures of the earlier attempts
+     * (most recent first) and their own causes, so `findCause` and `hasCause` see every attempt.
+     */
+    public *causes(): Generator<unknown, void, undefined> {
+        const seen = new Set<unknown>([this]);
+        for (const { failure } of [...this._attempts].reverse()) {
+            for (const cause of [failure, ...failure.causes()]) {
+                if (!seen.has(cause)) {
+                    seen.add(cause);
+                    yield cause;
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns the deepest cause of the last attempt.
+     */
+    public rootCause(): unknown {
+        return this.lastFailure.rootCause();
+    }
+
+    public toJSON(): FailureJSON {
+        return {
+            ...super.toJSON(),
+            attempts: this._attempts.map(({ attempt, failure, failedAt }) => ({ attempt, failure: failure.toJSON(), failedAt })),
+        };
+    }
+}
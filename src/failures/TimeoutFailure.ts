@@ -0,0 +1,35 @@
+import {Failure, type FailureJSON} from "../failure";
+
+export class TimeoutFailure extends Failure {
+    private readonly _timeoutMs: number | undefined;
+
+    constructor(message: string, timeoutMs?: number, cause?: unknown) {
+        super(message, cause);
+        this._timeoutMs = timeoutMs;
+        this.hideInternalFields();
+    }
+
+    public get kind(): "TimeoutFailure" {
+        return "TimeoutFailure";
+    }
+
+    /**
+     * Creates a TimeoutFailure with a standard message, e.g. `Operation timed out after 5000 ms.`
+     * @param timeoutMs The time limit that was exceeded.
+     * @param cause The optional underlying cause.
+     */
+    public static after(timeoutMs: number, cause?: unknown): TimeoutFailure {
+        return new TimeoutFailure(`Operation timed out after ${timeoutMs} ms.`, timeoutMs, cause);
+    }
+
+    /**
+     * The time limit that was exceeded, in milliseconds, if known.
+     */
+    public get timeoutMs(): number | undefined {
+        return this._timeoutMs;
+    }
+
+    public toJSON(): FailureJSON {
+        return { ...super.toJSON(), timeoutMs: this._timeoutMs };
+    }
+}
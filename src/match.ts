@@ -0,0 +1,107 @@
+import {Failure, type FailureClass} from "./failure";
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {IllegalState} from "./failures/IllegalState";
+
+/**
+ * Handlers for `matchFailure`, keyed by Failure `kind`.
+ * The `_` handler is required and receives any failure no other key matched.
+ * @template F The type of the failure being matched.
+ * @template R The type returned by every handler.
+ */
+export type FailureHandlers<F extends Failure, R> = {
+    readonly [kind: string]: ((failure: F) => R) | undefined;
+} & {
+    readonly _: (failure: F) => R;
+};
+
+/**
+ * Rest-parameter guard for `when`: adds no parameters when the Failure class declares a literal `kind`,
+ * and a required parameter that cannot be satisfied when its `kind` is only `string`.
+ * @template F The Failure type handled by the case.
+ */
+export type LiteralKind<F extends Failure> = string extends F['kind'] ? [literalKindRequired: never] : [];
+
+/**
+ * A single `[FailureClass, handler]` case for `matchFailureExhaustive`, created with `when`.
+ * @template F The Failure type handled by the case.
+ * @template R The type returned by the handler.
+ */
+export type FailureCase<F extends Failure, R> = readonly [FailureClass<F>, (failure: F) => R];
+
+type HandledBy<C extends readonly FailureCase<any, any>[]> =
+    C[number] extends infer X ? (X extends FailureCase<infer F, any> ? F : never) : never;
+
+type ResultOf<C extends readonly FailureCase<any, any>[]> =
+    C[number] extends infer X ? (X extends FailureCase<any, infer R> ? R : never) : never;
+
+/** The members of a failure union whose `kind` is not a string literal. */
+type WithoutLiteralKind<E extends Failure> = E extends Failure ? (string extends E['kind'] ? E : never) : never;
+
+/**
+ * Resolves to `unknown` when every member of `E` is handled, and to an unsatisfiable type naming
+ * the unhandled failures otherwise. `Exclude` compares types structurally, so two failure classes without
+ * members of their own would count as one; members of `E` without a literal `kind` are therefore rejected too.
+ */
+type Exhaustive<E extends Failure, C extends readonly FailureCase<any, any>[]> =
+    [Exclude<E, HandledBy<C>>] extends [never]
+        ? ([WithoutLiteralKind<E>] extends [never] ? unknown : { readonly literalKindRequired: WithoutLiteralKind<E> })
+        : { readonly unhandled: Exclude<E, HandledBy<C>> };
+
+/**
+ * Dispatches a failure to the handler registered under its `kind`.
+ * Follows `isA` semantics: if there is no handler for the failure's own kind, the handler
+ * of the closest superclass is used, falling back to the `_` handler.
+ * @param failure The failure to match.
+ * @param handlers The handlers keyed by Failure kind, plus the `_` fallback.
+ * @returns The value returned by the selected handler.
+ */
+export function matchFailure<F extends Failure, R>(failure: F, handlers: FailureHandlers<F, R>): R {
+    if (!handlers || !handlers._) {
+        throw new IllegalArgument("Handlers provided to matchFailure must include a '_' fallback");
+    }
+    for (const kind of Failure.kindChain(failure)) {
+        const handler = Object.prototype.hasOwnProperty.call(handlers, kind) ? handlers[kind] : undefined;
+        if (handler && kind !== '_') {
+            return handler(failure);
+        }
+    }
+    return handlers._(failure);
+}
+
+/**
+ * Creates a case for `matchFailureExhaustive`. The class must declare a literal `kind`
+ * (`get kind(): "NetworkFailure" { return "NetworkFailure"; }`), as every built-in failure does.
+ * @param failureClass The Failure class the case handles (subclasses included).
+ * @param handler The function to run with the matched failure.
+ * @returns The case.
+ */
+export function when<F extends Failure, R>(failureClass: FailureClass<F>, handler: (failure: F) => R, ...literalKind: LiteralKind<F>): FailureCase<F, R> {
+    if (!failureClass || !handler) {
+        throw new IllegalArgument("Class and handler provided to when cannot be null/undefined");
+    }
+    return [failureClass, handler];
+}
+
+/**
+ * Dispatches a failure to the case of its closest class, regardless of the order the cases are listed in.
+ * Cases are matched by class, or by the declared `kind` for copies of a class loaded twice (see `Failure.sameClass`).
+ * Fails type-checking when a member of the failure union `E` has no case, so adding a failure
+ * type to a function's signature flags every handler that has not been updated. The check tells failures apart
+ * by their literal `kind`, so every member of `E` must declare one; use `matchFailure` for failures without.
+ * @param failure The failure to match.
+ * @param cases The cases created with `when`.
+ * @returns The value returned by the selected handler.
+ * @throws {IllegalState} If no case matches at runtime (e.g. the failure was cast to a narrower type).
+ */
+export function matchFailureExhaustive<E extends Failure, C extends readonly FailureCase<any, any>[]>(
+    failure: E,
+    ...cases: C & Exhaustive<E, C>
+): ResultOf<C> {
+    for (let proto = Object.getPrototypeOf(failure); proto && proto !== Error.prototype; proto = Object.getPrototypeOf(proto)) {
+        const match = cases.find(([caseClass]) => Failure.sameClass(caseClass, proto.constructor));
+        if (match) {
+            return match[1](failure);
+        }
+    }
+    throw new IllegalState(`No case provided to matchFailureExhaustive for ${failure.kind}`);
+}
@@ -1,42 +1,83 @@
-import {Failure} from "./failure";
+import {type CallOptions, runWithin} from "./deadline";
+import {Failure, type SyncOnly} from "./failure";
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {IllegalState} from "./failures/IllegalState";
+import {Pair} from "./pair";
+import {Result} from "./result";
+import type {ResultAsync} from "./resultAsync";
 
 
 /**
- * Represents a custom error type encapsulating a cause.
- * Mimics Java's RuntimeException behavior for controlled error handling.
+ * The JSON form of an Option, produced by `toJSON` and read back by `Option.fromJSON`.
+ * @template T The type of the present value.
+ */
+export type OptionJSON<T> = { readonly some: true; readonly value: T } | { readonly some: false };
+
+/**
+ * Represents an optional value: either `some` value that is present, or `none`.
+ * Null and undefined are never stored; they are what `none` stands for.
+ * @template T The type of the present value.
  */
 export class Option<T> {
     private readonly value: T | null; // Use 'private readonly' for properties
 
-    // A singleton instance for an "empty" (no) failure
+    // A singleton instance for the empty Option
     private static readonly EMPTY_INSTANCE = new Option(null);
 
     // Private constructor to enforce static factory methods
-    // `isInternalEmpty` helps distinguish the actual EMPTY instance from others that might coincidentally have "no failure" message
-    constructor(value: T | null) {
-        // super(message || "An unknown failure occurred"); // Call Error constructor
+    private constructor(value: T | null) {
         this.value = value;
     }
 
     /**
-     * Static factory method to get the singleton empty failure.
+     * Creates an Option holding a present value.
+     * @param value The value, which cannot be null or undefined.
+     * @throws {IllegalArgument} If the value is null or undefined; use `Option.fromNullable` for those.
      */
-    public static empty<T>(): Option<T> {
+    public static some<T>(value: T): Option<T> {
+        if (value === undefined || value === null) {
+            throw new IllegalArgument("Option.some received null or undefined. Use Option.fromNullable instead.");
+        }
+        return new Option(value);
+    }
+
+    /**
+     * Returns the singleton empty Option.
+     */
+    public static none<T>(): Option<T> {
         return Option.EMPTY_INSTANCE as Option<T>;
     }
 
-    public static ok<T>(value: T) {
+    /**
+     * Creates an Option from a value that may be null or undefined, which become an empty Option.
+     * @param value The value, or null/undefined.
+     */
+    public static fromNullable<T>(value: T | undefined | null): Option<T> {
         if (value === undefined || value === null) {
-            throw new Error("Option.of received null or undefined. Use Option.orUndefined instead.");
+            return Option.none<T>();
         }
         return new Option(value);
     }
 
+    /**
+     * Returns the singleton empty Option. Same as `Option.none`.
+     */
+    public static empty<T>(): Option<T> {
+        return Option.none<T>();
+    }
+
+    /**
+     * @deprecated Use `Option.some`.
+     */
+    public static ok<T>(value: T): Option<T> {
+        return Option.some(value);
+    }
+
+    /**
+     * @deprecated Use `Option.fromNullable`.
+     */
     public static orUndefinedOrNullable<T>(value: T | undefined | null): Option<T> {
-        if (value === undefined || value === null) {
-            return Option.empty<T>();
-        }
-        return new Option(value);
+        return Option.fromNullable(value);
     }
 
     public isOk(): boolean {
@@ -48,49 +89,314 @@ export class Option<T> {
     }
 
     public get(): T {
-        if (!this.value) {
+        if (this.isEmpty()) {
             throw new Failure("Attempted to get value from an empty Option.");
         }
-        return this.value;
+        return this.value as T;
     }
 
     public getOrElse(defaultValue: T): T {
         return this.value !== null ? this.value : defaultValue;
     }
 
-    public map<U>(mapper: (value: T) => U): Option<U> {
+    /**
+     * Returns the value if present; otherwise, `undefined`.
+     */
+    public getOrUndefined(): T | undefined {
+        return this.value !== null ? this.value : undefined;
+    }
+
+    /**
+     * Transforms the present value. A null or undefined mapped value gives an empty Option.
+     * @param mapper A function that transforms the present value.
+     */
+    public map<U>(mapper: (value: T) => U | null | undefined): Option<U> {
+        if (!mapper) {
+            throw new IllegalArgument("Mapper provided to map is null/undefined");
+        }
         if (this.value !== null) {
-            return Option.ok<U>(mapper(this.value));
+            return Option.fromNullable<U>(mapper(this.value));
         }
-        return Option.empty<U>();
+        return Option.none<U>();
     }
 
     public flatMap<U>(mapper: (value: T) => Option<U>): Option<U> {
         if (this.value !== null) {
             return mapper(this.value);
         }
-        return Option.empty<U>();
+        return Option.none<U>();
+    }
+
+    /**
+     * Keeps the present value only if it satisfies the predicate.
+     * @param predicate The condition the value must satisfy.
+     * @returns This Option, or an empty Option.
+     */
+    public filter(predicate: (value: T) => boolean): Option<T> {
+        if (!predicate) {
+            throw new IllegalArgument("Predicate provided to filter is null/undefined");
+        }
+        return this.value !== null && predicate(this.value) ? this : Option.none<T>();
     }
 
-    public static async of<T>(supplier: () => T | Promise<T>): Promise<Option<T>> {
+    /**
+     * Returns this Option if a value is present; otherwise, returns the alternative Option.
+     * @param alternative The Option to use if this Option is empty.
+     */
+    public orElse<U = T>(alternative: Option<U>): Option<T | U> {
+        if (!alternative) {
+            throw new IllegalArgument("Alternative provided to orElse is null/undefined");
+        }
+        return this.value !== null ? this : alternative;
+    }
+
+    /**
+     * Returns this Option if a value is present; otherwise, invokes a supplier for the alternative Option.
+     * @param supplier A function that supplies the Option to use if this Option is empty.
+     */
+    public orElseGet<U = T>(supplier: () => Option<U>): Option<T | U> {
         if (!supplier) {
-            throw new Error("Runnable provided to Failure.of is null/undefined");
+            throw new IllegalArgument("Supplier provided to orElseGet is null/undefined");
+        }
+        return this.value !== null ? this : supplier();
+    }
+
+    /**
+     * Checks if a value is present and strictly equal (`===`) to the given value.
+     * @param value The value to compare with.
+     */
+    public contains(value: T): boolean {
+        return this.value !== null && this.value === value;
+    }
+
+    /**
+     * Combines this Option with another into an Option of a Pair, present only if both are present.
+     * @param other The Option to combine with.
+     */
+    public zip<U>(other: Option<U>): Option<Pair<T, U>> {
+        return this.zipWith(other, (a, b) => Pair.of(a, b));
+    }
+
+    /**
+     * Combines this Option with another using a function, applied only if both are present.
+     * A null or undefined combined value gives an empty Option.
+     * @param other The Option to combine with.
+     * @param combiner A function that combines both present values.
+     */
+    public zipWith<U, R>(other: Option<U>, combiner: (value: T, otherValue: U) => R | null | undefined): Option<R> {
+        if (!other || !combiner) {
+            throw new IllegalArgument("Option and combiner provided to zipWith cannot be null/undefined");
+        }
+        if (this.value !== null && other.value !== null) {
+            return Option.fromNullable(combiner(this.value, other.value));
+        }
+        return Option.none<R>();
+    }
+
+    /**
+     * Executes an action if a value is present.
+     * @param action The function to execute with the present value.
+     */
+    public ifSome(action: (value: T) => void): void {
+        if (!action) {
+            throw new IllegalArgument("Action provided to ifSome is null/undefined");
+        }
+        if (this.value !== null) {
+            action(this.value);
+        }
+    }
+
+    /**
+     * Executes a runnable if the Option is empty.
+     * @param runnable The function to execute.
+     */
+    public ifNone(runnable: () => void): void {
+        if (!runnable) {
+            throw new IllegalArgument("Runnable provided to ifNone is null/undefined");
         }
+        if (this.value === null) {
+            runnable();
+        }
+    }
+
+    /**
+     * Executes an action if a value is present, then returns itself.
+     * Useful for logging or debugging in a chained context.
+     * @param action The function to execute with the present value.
+     */
+    public inspect(action: (value: T) => void): Option<T> {
+        this.ifSome(action);
+        return this;
+    }
+
+    /**
+     * Converts this Option into a Result, using the supplied failure when the Option is empty.
+     * @param failureSupplier A function that supplies the Failure for an empty Option.
+     */
+    public toResult<E extends Failure>(failureSupplier: () => E): Result<T, E> {
+        if (!failureSupplier) {
+            throw new IllegalArgument("Failure supplier provided to toResult is null/undefined");
+        }
+        return this.value !== null ? Result.ok<T, E>(this.value) : Result.failure<T, E>(failureSupplier());
+    }
+
+    /**
+     * Returns an array holding the present value, or an empty array.
+     */
+    public toArray(): T[] {
+        return this.value !== null ? [this.value] : [];
+    }
+
+    /**
+     * Returns the JSON form of this Option: `{ some: true, value }` or `{ some: false }`. Called by `JSON.stringify`.
+     */
+    public toJSON(): OptionJSON<T> {
+        return this.value !== null ? { some: true, value: this.value } : { some: false };
+    }
+
+    /**
+     * Recreates an Option from its JSON form.
+     * @param json The JSON form produced by `toJSON` (after `JSON.parse`, if it was sent as text).
+     * @returns The Option.
+     */
+    public static fromJSON<T>(json: OptionJSON<T>): Option<T> {
+        if (!json || typeof json.some !== 'boolean') {
+            throw new IllegalArgument("JSON provided to Option.fromJSON is not the JSON form of an Option");
+        }
+        return json.some ? Option.some(json.value) : Option.none();
+    }
+
+    /**
+     * Returns an iterator over the present value (if any). Same as iterating the Option itself.
+     */
+    public values(): IterableIterator<T> {
+        return this.toArray()[Symbol.iterator]();
+    }
+
+    /**
+     * Iterates over the present value (if any), so Options work with for-of and spread:
+     * `for (const v of option)`, `[...option]`.
+     */
+    public [Symbol.iterator](): IterableIterator<T> {
+        return this.values();
+    }
+
+    /**
+     * Folds the Option into a single value by running the handler for its state.
+     * @param handlers `some` receives the present value, `none` is called when the Option is empty.
+     * @returns The value returned by the selected handler.
+     */
+    public match<R>(handlers: { some: (value: T) => R; none: () => R }): R {
+        if (!handlers || !handlers.some || !handlers.none) {
+            throw new IllegalArgument("Handlers provided to match must include both 'some' and 'none'");
+        }
+        return this.isOk() ? handlers.some(this.value as T) : handlers.none();
+    }
+
+    /**
+     * Runs a generator as do-notation: each `yield* option.bind()` evaluates to the present value,
+     * and the first empty Option stops the generator (running its `finally` blocks).
+     * A returned null or undefined also yields an empty Option.
+     * @param generator A generator function that `yield*`s bound Options and returns the final value.
+     * @returns An Option of the returned value, or an empty Option.
+     */
+    public static gen<T>(generator: () => Generator<Option<never>, T | null | undefined, unknown>): Option<T> {
+        if (!generator) {
+            throw new IllegalArgument("Generator provided to Option.gen is null/undefined");
+        }
+        const iterator = generator();
+        const step = iterator.next();
+        if (step.done) {
+            return Option.fromNullable(step.value);
+        }
+        iterator.return(undefined);
+        return Option.none<T>();
+    }
+
+    /**
+     * The async version of `Option.gen`, where `await` can be used between the `yield*` steps.
+     * @param generator An async generator function that `yield*`s bound Options and returns the final value.
+     * @returns A Promise of an Option of the returned value, or of an empty Option.
+     */
+    public static async genAsync<T>(generator: () => AsyncGenerator<Option<never>, T | null | undefined, unknown>): Promise<Option<T>> {
+        if (!generator) {
+            throw new IllegalArgument("Generator provided to Option.genAsync is null/undefined");
+        }
+        const iterator = generator();
+        const step = await iterator.next();
+        if (step.done) {
+            return Option.fromNullable(step.value);
+        }
+        await iterator.return(undefined);
+        return Option.none<T>();
+    }
+
+    /**
+     * Binds the Option in `Option.gen`: `yield* option.bind()` evaluates to the present value
+     * without yielding, while an empty Option yields itself so the runner can stop.
+     */
+    public *bind(): Generator<Option<never>, T, unknown> {
+        if (this.isEmpty()) {
+            yield Option.none<never>();
+            throw new IllegalState("An empty Option cannot be resumed; iterate it with Option.gen");
+        }
+        return this.value as T;
+    }
 
+    /**
+     * Runs a sync or async supplier and wraps its value in an Option, returning a chainable `ResultAsync`.
+     * A null or undefined value becomes an empty Option; a thrown error becomes a failure instead of being swallowed.
+     * @param supplier The function to execute that returns a value or a Promise of one; it receives an AbortSignal.
+     * @param options The optional time limit, deadline and signal, as for `Result.of`.
+     * @returns A ResultAsync resolving to the Option, or to a failure if an error occurred.
+     */
+    public static ofAsync<T>(supplier: (signal: AbortSignal) => T | null | undefined | Promise<T | null | undefined>, options?: CallOptions): ResultAsync<Option<T>> {
+        return Result.ofAsync(supplier, options).map((value) => Option.fromNullable(value));
+    }
+
+    /**
+     * Synchronous version of `Option.ofAsync`: runs a supplier function in a try-catch block.
+     * A null or undefined value yields an empty Option; a thrown error becomes a failure instead of being swallowed.
+     * Async suppliers are rejected at compile time; use `Option.ofAsync` for those.
+     * @param supplier The synchronous function to execute that returns a value.
+     * @returns A successful Result with the Option of the value, or a failed Result if an error was thrown.
+     */
+    public static try<T>(supplier: () => T | null | undefined, ...syncOnly: SyncOnly<T>): Result<Option<T>> {
+        if (!supplier) {
+            return Result.failure(new IllegalArgument("Supplier provided to Option.try is null/undefined"));
+        }
         try {
-            const result = supplier(); // Execute the supplier
-
-            // Check if the result is a Promise (asynchronously returned value)
-            if (result instanceof Promise) {
-                const awaitedValue = await result; // Await the promise
-                return Option.ok(awaitedValue);
-            } else {
-                // Synchronously returned value
-                return Option.ok(result);
-            }
+            return Result.ok(Option.fromNullable(supplier()));
         } catch (error: unknown) {
-            return Option.empty();
+            return Result.failure(Failure.fromThrown(error, "An unexpected error occurred during supplier execution."));
+        }
+    }
+
+    /**
+     * Runs a sync or async supplier and wraps its value in an Option.
+     * A null or undefined value becomes an empty Option. Thrown errors are not swallowed:
+     * they reject the returned Promise. Use `Option.ofAsync` to get them as a `Failure` instead.
+     * With options, the Promise also rejects with a TimeoutFailure or a CancelledFailure, as with `runWithin`.
+     * @param supplier The function to execute that returns a value or a Promise of one; it receives an AbortSignal.
+     * @param options The optional time limit, deadline and signal.
+     * @returns A Promise of an Option of the value, or of an empty Option.
+     */
+    public static async fromNullableAsync<T>(supplier: (signal: AbortSignal) => T | null | undefined | Promise<T | null | undefined>, options?: CallOptions): Promise<Option<T>> {
+        if (!supplier) {
+            throw new IllegalArgument("Supplier provided to Option.fromNullableAsync is null/undefined");
         }
+        return Option.fromNullable(await runWithin(supplier, options));
+    }
+
+    /**
+     * Same as `Option.fromNullableAsync`: null or undefined becomes an empty Option and thrown errors
+     * reject the returned Promise instead of being turned into an empty Option.
+     * @param supplier The function to execute that returns a value or a Promise of one; it receives an AbortSignal.
+     * @param options The optional time limit, deadline and signal.
+     * @returns A Promise of an Option of the value, or of an empty Option.
+     */
+    public static of<T>(supplier: (signal: AbortSignal) => T | null | undefined | Promise<T | null | undefined>, options?: CallOptions): Promise<Option<T>> {
+        return Option.fromNullableAsync(supplier, options);
     }
 
-}
\ No newline at end of file
+}
@@ -1,3 +1,13 @@
+import {IllegalArgument} from "./failures/IllegalArgument";
+
+/**
+ * The JSON form of a Pair, produced by `toJSON` and read back by `Pair.fromJSON`.
+ */
+export interface PairJSON<A, B> {
+    readonly first: A;
+    readonly second: B;
+}
+
 /**
  * Represents an immutable pair of two elements, a first element of type A
  * and a second element of type B.
@@ -89,6 +99,25 @@ export class Pair<A, B> {
         return (hashA * 31) ^ hashB; // Combine with a prime number
     }
 
+    /**
+     * Returns the JSON form of the Pair: `{ first, second }`. Called by `JSON.stringify`.
+     */
+    public toJSON(): PairJSON<A, B> {
+        return { first: this._first, second: this._second };
+    }
+
+    /**
+     * Recreates a Pair from its JSON form.
+     * @param json The JSON form produced by `toJSON` (after `JSON.parse`, if it was sent as text).
+     * @returns A new Pair instance.
+     */
+    public static fromJSON<A, B>(json: PairJSON<A, B>): Pair<A, B> {
+        if (!json || typeof json !== 'object') {
+            throw new IllegalArgument("JSON provided to Pair.fromJSON is not the JSON form of a Pair");
+        }
+        return new Pair(json.first, json.second);
+    }
+
     /**
      * Returns a string representation of the Pair.
      * @returns A string in the format "Pair(first, second)".
@@ -0,0 +1,229 @@
+import {Failure, type FailureClass} from "./failure";
+import {ApiFailure} from "./failures/ApiFailure";
+import {AuthFailure} from "./failures/AuthFailure";
+import {EntityAlreadyExists} from "./failures/EntityAlreadyExists";
+import {type EntityKey, EntityNotFound} from "./failures/EntityNotFound";
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {InternalFailure} from "./failures/InternalFailure";
+import {InvalidRequest} from "./failures/InvalidRequest";
+import {OperationNotAllowed} from "./failures/OperationNotAllowed";
+
+/**
+ * The media type of a Problem Details response body.
+ */
+export const PROBLEM_JSON_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * An RFC 7807 Problem Details object. Members other than the standard ones are extensions,
+ * such as `kind` (the failure's kind), `code` (the failure's code) or `errors` (the field errors of an InvalidRequest).
+ */
+export interface ProblemDetails {
+    readonly type: string;
+    readonly title: string;
+    readonly status: number;
+    readonly detail?: string;
+    readonly instance?: string;
+    readonly [extension: string]: unknown;
+}
+
+/**
+ * How a Failure class maps to a Problem Details object and back.
+ * @template F The Failure type handled by the mapping (subclasses included).
+ */
+export interface ProblemMapping<F extends Failure> {
+    readonly failureClass: FailureClass<F>;
+    /** The suggested HTTP status. */
+    readonly status: number | ((failure: F) => number);
+    /** The problem type URI. Defaults to `about:blank`, in which case documents are recognised by their `kind`. */
+    readonly type?: string;
+    /** A short summary of the problem type. Defaults to the reason phrase of the status. */
+    readonly title?: string;
+    /** The explanation for this occurrence. Defaults to the failure message; return `undefined` to hide it. */
+    readonly detail?: (failure: F) => string | undefined;
+    /** Extension members to add to the document. */
+    readonly extensions?: (failure: F) => Readonly<Record<string, unknown>>;
+    /** Recreates the failure from a document. Without it, documents of this kind are parsed as an ApiFailure. */
+    readonly parse?: (problem: ProblemDetails) => F;
+}
+
+const STATUS_TITLES: Readonly<Record<number, string>> = {
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    409: 'Conflict',
+    422: 'Unprocessable Content',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable',
+    504: 'Gateway Timeout',
+};
+
+function messageOf(problem: ProblemDetails): string {
+    return typeof problem.detail === 'string' && problem.detail ? problem.detail : problem.title;
+}
+
+function stringOf(value: unknown): string | undefined {
+    return typeof value === 'string' ? value : undefined;
+}
+
+function entityKeyOf(value: unknown): EntityKey | undefined {
+    if (typeof value === 'string' || typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)
+        && Object.values(value).every((field) => typeof field === 'string' || typeof field === 'number')) {
+        return value as Readonly<Record<string, string | number>>;
+    }
+    return undefined;
+}
+
+function entityDetailsOf(problem: ProblemDetails): { entityType?: string; key?: EntityKey } {
+    const entityType = stringOf(problem.entityType);
+    const key = entityKeyOf(problem.key);
+    return { ...(entityType !== undefined ? { entityType } : {}), ...(key !== undefined ? { key } : {}) };
+}
+
+const DEFAULT_MAPPINGS: readonly ProblemMapping<any>[] = [
+    {
+        failureClass: EntityNotFound,
+        status: 404,
+        extensions: (failure: EntityNotFound) => ({ entityType: failure.entityType, key: failure.key }),
+        parse: (problem) => new EntityNotFound(messageOf(problem), entityDetailsOf(problem)),
+    } satisfies ProblemMapping<EntityNotFound>,
+    {
+        failureClass: EntityAlreadyExists,
+        status: 409,
+        extensions: (failure: EntityAlreadyExists) => ({ entityType: failure.entityType, key: failure.key }),
+        parse: (problem) => new EntityAlreadyExists(messageOf(problem), entityDetailsOf(problem)),
+    } satisfies ProblemMapping<EntityAlreadyExists>,
+    {
+        failureClass: AuthFailure,
+        status: (failure: AuthFailure) => failure.reason === 'forbidden' ? 403 : 401,
+        parse: (problem) => new AuthFailure(messageOf(problem), problem.status === 403 ? 'forbidden' : 'unauthenticated'),
+    } satisfies ProblemMapping<AuthFailure>,
+    {
+        failureClass: InvalidRequest,
+        status: 400,
+        extensions: (failure: InvalidRequest) => ({ errors: failure.toFieldErrors() }),
+        parse: (problem) => {
+            try {
+                return new InvalidRequest(problem.errors as Record<string, string[]>);
+            } catch {
+                return new InvalidRequest('', messageOf(problem));
+            }
+        },
+    } satisfies ProblemMapping<InvalidRequest>,
+    {
+        failureClass: IllegalArgument,
+        status: 400,
+        parse: (problem) => new IllegalArgument(messageOf(problem)),
+    } satisfies ProblemMapping<IllegalArgument>,
+    {
+        failureClass: OperationNotAllowed,
+        status: 403,
+        parse: (problem) => new OperationNotAllowed(messageOf(problem)),
+    } satisfies ProblemMapping<OperationNotAllowed>,
+    {
+        failureClass: InternalFailure,
+        status: 500,
+        detail: () => undefined,
+        parse: (problem) => new InternalFailure(messageOf(problem)),
+    } satisfies ProblemMapping<InternalFailure>,
+];
+
+/**
+ * `ProblemMapper` turns failures into RFC 7807 Problem Details objects with a suggested HTTP status,
+ * and parses such documents back into the matching Failure subclass.
+ * Mappings are looked up by `kind` along the failure's class chain, so the closest class wins, as with `matchFailure`.
+ * Failures without a mapping become a `500 Internal Server Error` without a detail, so internal messages are not exposed.
+ */
+export class ProblemMapper {
+    private readonly _mappings: ReadonlyMap<string, ProblemMapping<any>>;
+
+    private constructor(mappings: ReadonlyMap<string, ProblemMapping<any>>) {
+        this._mappings = mappings;
+    }
+
+    /**
+     * Creates a mapper with the default mappings: EntityNotFound → 404, EntityAlreadyExists → 409,
+     * AuthFailure → 401 or 403 by reason, InvalidRequest and IllegalArgument → 400 (with the field errors
+     * of an InvalidRequest in `errors`), OperationNotAllowed → 403 and InternalFailure → 500.
+     */
+    public static defaults(): ProblemMapper {
+        return ProblemMapper.empty().registerAll(DEFAULT_MAPPINGS);
+    }
+
+    /**
+     * Creates a mapper without any mapping.
+     */
+    public static empty(): ProblemMapper {
+        return new ProblemMapper(new Map());
+    }
+
+    /**
+     * Adds a mapping, replacing any existing mapping of the same class. The mapper itself is not changed.
+     * @param mapping The mapping to add.
+     * @returns A new ProblemMapper with the mapping.
+     */
+    public register<F extends Failure>(mapping: ProblemMapping<F>): ProblemMapper {
+        if (!mapping || !mapping.failureClass) {
+            throw new IllegalArgument("Mapping provided to register must have a failureClass");
+        }
+        return this.registerAll([mapping]);
+    }
+
+    private registerAll(mappings: readonly ProblemMapping<any>[]): ProblemMapper {
+        const registered = new Map(this._mappings);
+        mappings.forEach((mapping) => registered.set(Failure.kindOf(mapping.failureClass), mapping));
+        return new ProblemMapper(registered);
+    }
+
+    /**
+     * Maps a failure to a Problem Details object. The document carries the failure's `kind`
+     * and, when set, its `code` as extensions; the cause chain and context are never included.
+     * @param failure The failure to map.
+     * @param instance An optional URI identifying this occurrence, e.g. the request path.
+     * @returns The Problem Details object; its `status` is the suggested HTTP status.
+     */
+    public toProblem(failure: Failure, instance?: string): ProblemDetails {
+        if (!failure) {
+            throw new IllegalArgument("Failure provided to toProblem is null/undefined");
+        }
+        const mapping = Failure.kindChain(failure).map((kind) => this._mappings.get(kind)).find((found) => found !== undefined);
+        const status = !mapping ? 500 : typeof mapping.status === 'function' ? mapping.status(failure) : mapping.status;
+        const detail = !mapping ? undefined : mapping.detail ? mapping.detail(failure) : failure.message;
+        return {
+            ...mapping?.extensions?.(failure),
+            type: mapping?.type ?? 'about:blank',
+            title: mapping?.title ?? STATUS_TITLES[status] ?? 'Error',
+            status,
+            ...(detail !== undefined ? { detail } : {}),
+            ...(instance !== undefined ? { instance } : {}),
+            kind: mapping ? Failure.kindOf(mapping.failureClass) : 'Failure',
+            ...(failure.code !== undefined ? { code: failure.code } : {}),
+        };
+    }
+
+    /**
+     * Recreates a failure from a Problem Details object, e.g. a response body from another service.
+     * The mapping is chosen by `type` when it is not `about:blank`, otherwise by the `kind` extension.
+     * Documents without a matching mapping become an ApiFailure holding the document as its body.
+     * @param problem The Problem Details object.
+     * @returns The recreated failure, with the document's `code` if it has one.
+     */
+    public fromProblem(problem: ProblemDetails): Failure {
+        if (!problem) {
+            throw new IllegalArgument("Problem provided to fromProblem is null/undefined");
+        }
+        const byType = problem.type && problem.type !== 'about:blank'
+            ? Array.from(this._mappings.values()).find((mapping) => mapping.type === problem.type)
+            : undefined;
+        const mapping = byType ?? (typeof problem.kind === 'string' ? this._mappings.get(problem.kind) : undefined);
+        const failure: Failure = mapping?.parse
+            ? mapping.parse(problem)
+            : new ApiFailure(messageOf(problem), { status: problem.status, body: problem });
+        return typeof problem.code === 'string' ? failure.withCode(problem.code) : failure;
+    }
+}
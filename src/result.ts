@@ -1,8 +1,16 @@
 // failure.ts (Assuming your previous Failure class is here)
 // Make sure your Failure class is exported, e.g., `export class Failure extends Error { ... }`
 // And its static methods like `Failure.empty()` and `Failure.wrap()` are available.
-import { Failure } from './failure'; // Adjust path as necessary
+import { Failure, type FailureClass, type FailureJSON, type SyncOnly } from './failure'; // Adjust path as necessary
+import { type CallOptions, isInterruption, runWithin } from './deadline';
+import { neverAborted } from './signals';
+import { FailureRegistry } from './failureRegistry';
+import { AggregateFailure } from './failures/AggregateFailure';
 import { IllegalArgument } from './failures/IllegalArgument';
+import { IllegalState } from './failures/IllegalState';
+import { Option } from './option';
+import { Pair } from './pair';
+import { type Awaitable, ResultAsync } from './resultAsync';
 
 /**
  * Represents the successful outcome of an operation.
@@ -61,17 +69,66 @@ import { IllegalArgument } from './failures/IllegalArgument';
 //     return { isOk: false, isFailure: true, failure: error };
 // }
 
+/**
+ * The JSON form of a Result, produced by `toJSON` and read back by `Result.fromJSON`.
+ * @template T The type of the successful value.
+ */
+export type ResultJSON<T> =
+    | { readonly ok: true; readonly value: T }
+    | { readonly ok: false; readonly failure: FailureJSON };
+
+/**
+ * How `Result.traverseAsync` handles failures: `failFast` stops at the first one, `collect` runs every item.
+ */
+export type TraverseMode = 'failFast' | 'collect';
+
+/**
+ * The outcome of one item, reported by `Result.traverseAsync` as soon as it completes.
+ */
+export interface TraverseProgress<A, T, E extends Failure> {
+    readonly item: A;
+    readonly index: number;
+    readonly result: Result<T, E>;
+    /** The number of items completed so far, this one included. */
+    readonly completed: number;
+    readonly total: number;
+}
+
+export interface TraverseOptions<A, T, E extends Failure> {
+    /** The maximum number of items processed at the same time. Defaults to 1 (one after the other). */
+    readonly concurrency?: number;
+    /** Defaults to `failFast`. */
+    readonly mode?: TraverseMode;
+    /** Called after every completed item, in completion order. */
+    readonly onProgress?: (progress: TraverseProgress<A, T, E>) => void;
+}
+
+/** The successful value type of a Result type. */
+type OkOf<R> = R extends Result<infer T, any> ? T : never;
+
+/** The failure type of a Result type, distributed over unions. */
+type FailureOf<R> = R extends Result<any, infer E> ? E : never;
+
+/** Maps a list (or tuple) of Result types to the list (or tuple) of their value types. */
+type OkValues<R extends readonly Result<any, any>[]> = { -readonly [K in keyof R]: OkOf<R[K]> };
+
+/** Maps a record of Result types to the record of their value types. */
+type OkRecord<R extends Record<string, Result<any, any>>> = { -readonly [K in keyof R]: OkOf<R[K]> };
+
 /**
  * The `Result` class provides a type-safe way to handle operations that can
  * either return a successful value or an error (represented by a `Failure` object).
  * It enforces explicit error handling, similar to Rust's `Result` enum.
  * @template T The type of the successful value.
+ * @template E The type of the failure, narrowed to a `Failure` subclass when known. Defaults to `Failure`.
  */
-export class Result<T> { // Renamed to ResultClass to avoid conflict with `type Result<T>`
-    private readonly _value?: T | undefined;
-    private readonly _failure?: Failure | undefined; // Will be undefined if isOk is true
+export class Result<T, E extends Failure = Failure> {
+    private readonly _ok: boolean; // The discriminant: the value itself may legitimately be falsy or undefined
+    private readonly _value: T | undefined;
+    private readonly _failure: E | undefined; // Will be undefined if isOk is true
 
-    private constructor(failure?: Failure, value?: T) {
+    private constructor(ok: boolean, value: T | undefined, failure: E | undefined) {
+        this._ok = ok;
         this._value = value;
         this._failure = failure;
     }
@@ -81,8 +138,8 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
      * @param value The successful value.
      * @returns A Result in the success state.
      */
-    public static ok<T>(value: T): Result<T> {
-        return new Result<T>(undefined, value);
+    public static ok<T, E extends Failure = never>(value: T): Result<T, E> {
+        return new Result<T, E>(true, value, undefined);
     }
 
     /**
@@ -90,8 +147,8 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
      * @param failure The Failure object.
      * @returns A Result in the failure state.
      */
-    public static failure<T>(failure: Failure): Result<T> {
-        return new Result<T>(failure, undefined);
+    public static failure<T = never, E extends Failure = Failure>(failure: E): Result<T, E> {
+        return new Result<T, E>(false, undefined, failure);
     }
 
     /**
@@ -107,14 +164,14 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
      * Checks if the Result is in a successful state.
      */
     public isOk(): boolean {
-        return this._failure === undefined; // Accessing the discriminant property
+        return this._ok; // Accessing the discriminant property
     }
 
     /**
      * Checks if the Result is in a failure state.
      */
     public isFailure(): boolean {
-        return this._failure !== undefined;
+        return !this._ok;
     }
 
     /**
@@ -131,11 +188,11 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
      * Gets the Failure object if the Result is in a failure state.
      * Throws an IllegalArgument if called on a successful Result.
      */
-    public failure(): Failure {
+    public failure(): E {
         if (this.isOk()) {
             throw new IllegalArgument("Cannot get failure from a successful Result.");
         }
-        return this._failure ? this._failure : Failure.empty();
+        return this._failure as E;
     }
 
     /**
@@ -144,10 +201,10 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
      * @returns The successful value.
      */
     public expect(message: string): T {
-        if (!this._value) {
-            throw Failure.wrap(`${message}: ${this._failure?.message}`, this._failure);
+        if (!this._ok) {
+            throw Failure.wrap(`${message}: ${(this._failure as E).message}`, this._failure);
         }
-        return this._value;
+        return this._value as T;
     }
 
     /**
@@ -164,49 +221,35 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
      * @param defaultValue The value to return if the Result is a failure.
      * @returns The successful value or the default value.
      */
-    // public orElse(defaultValue: T): T {
-    //     return this.isOk() ? (this as OkResult<T>).value : defaultValue;
-    // }
+    public getOrElse<U = T>(defaultValue: U): T | U {
+        return this._ok ? this._value as T : defaultValue;
+    }
 
     /**
      * Returns the value if the Result is successful; otherwise, invokes a supplier to get a default value.
-     * @param supplier A function that supplies the default value if the Result is a failure.
+     * @param supplier A function that supplies the default value from the Failure object if the Result is a failure.
      * @returns The successful value or the value from the supplier.
      */
-    // public orElseGet(supplier: () => T): T {
-    //     if (!supplier) {
-    //         throw new IllegalArgument("Supplier provided to orElseGet is null/undefined");
-    //     }
-    //     return this.isOk() ? (this as OkResult<T>).value : supplier();
-    // }
-
-    /**
-     * Returns the value if the Result is successful; otherwise, throws the encapsulated failure.
-     * @returns The successful value.
-     * @throws The encapsulated Failure object if the Result is in a failure state.
-     */
-    // public orElseThrow(): T {
-    //     if (this.isFailure()) {
-    //         throw (this as FailureResult<T>).failure;
-    //     }
-    //     return (this as OkResult<T>).value;
-    // }
+    public getOrElseGet<U = T>(supplier: (failure: E) => U): T | U {
+        if (!supplier) {
+            throw new IllegalArgument("Supplier provided to getOrElseGet is null/undefined");
+        }
+        return this._ok ? this._value as T : supplier(this._failure as E);
+    }
 
     /**
-     * Returns the value if the Result is successful; otherwise, throws an exception provided by a supplier.
-     * @param exceptionSupplier A function that supplies the exception to throw if the Result is a failure.
+     * Returns the value if the Result is successful; otherwise, throws the encapsulated failure,
+     * or the error produced by the mapper when one is given.
+     * @param mapper An optional function that maps the Failure object to the error to throw.
      * @returns The successful value.
-     * @throws An exception provided by the supplier.
+     * @throws The encapsulated Failure object, or the mapped error, if the Result is in a failure state.
      */
-    // public orElseThrowException<X extends Error>(exceptionSupplier: () => X): T {
-    //     if (!exceptionSupplier) {
-    //         throw new IllegalArgument("Exception supplier provided to orElseThrowException is null/undefined");
-    //     }
-    //     if (this.isFailure()) {
-    //         throw exceptionSupplier();
-    //     }
-    //     return (this as OkResult<T>).value;
-    // }
+    public getOrThrow(mapper?: (failure: E) => unknown): T {
+        if (!this._ok) {
+            throw mapper ? mapper(this._failure as E) : this._failure;
+        }
+        return this._value as T;
+    }
 
     /**
      * Executes an action if the Result is in a successful state.
@@ -216,8 +259,8 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
         if (!action) {
             throw new IllegalArgument("Action provided to ifOk is null/undefined");
         }
-        if (this._value) {
-            action(this._value);
+        if (this._ok) {
+            action(this._value as T);
         }
     }
 
@@ -225,13 +268,25 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
      * Executes an action if the Result is in a failure state.
      * @param action The function to execute with the Failure object.
      */
-    public ifFailure(action: (failure: Failure) => void): void {
+    public ifFailure(action: (failure: E) => void): void {
         if (!action) {
             throw new IllegalArgument("Action provided to ifFailure is null/undefined");
         }
-        if (this.isFailure()) {
-            action(this._failure ? this._failure : Failure.empty());
+        if (!this._ok) {
+            action(this._failure as E);
+        }
+    }
+
+    /**
+     * Folds the Result into a single value by running the handler for its state.
+     * @param handlers `ok` receives the successful value, `failure` receives the Failure object.
+     * @returns The value returned by the selected handler.
+     */
+    public match<R>(handlers: { ok: (value: T) => R; failure: (failure: E) => R }): R {
+        if (!handlers || !handlers.ok || !handlers.failure) {
+            throw new IllegalArgument("Handlers provided to match must include both 'ok' and 'failure'");
         }
+        return this._ok ? handlers.ok(this._value as T) : handlers.failure(this._failure as E);
     }
 
     /**
@@ -239,9 +294,9 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
      * Useful for logging or debugging in a chained context.
      * @param action The function to execute with the successful value.
      */
-    public inspectOk(action: (value: T) => void): Result<T> {
+    public inspectOk(action: (value: T) => void): Result<T, E> {
         this.ifOk(action);
-        return this as Result<T>;
+        return this;
     }
 
     /**
@@ -249,42 +304,29 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
      * Useful for logging or debugging in a chained context.
      * @param action The function to execute with the Failure object.
      */
-    public inspectFailure(action: (failure: Failure) => void): Result<T> {
+    public inspectFailure(action: (failure: E) => void): Result<T, E> {
         this.ifFailure(action);
-        return this as Result<T>;
+        return this;
     }
 
     /**
-     * Creates a Result by running a supplier function in a try-catch block.
-     * @param supplier The function to execute that returns a value.
-     * @returns A successful Result with the value, or a failed Result if an error occurred.
+     * Creates a Result by running a sync or async supplier function in a try-catch block.
+     * With `timeoutMs`, a `deadline` or a `signal`, the call fails with a TimeoutFailure or a CancelledFailure
+     * instead of waiting for the supplier, and the supplier's signal is aborted so it can stop its own work.
+     * @param supplier The function to execute that returns a value or a Promise of one; it receives an AbortSignal.
+     * @param options The optional time limit, deadline and signal.
+     * @returns A Promise of a successful Result with the value, or a failed Result if an error occurred.
      */
-    // public static of<T>(supplier: () => T): Result<T> {
-    //     if (!supplier) {
-    //         throw new IllegalArgument("Supplier provided to Result.of is null/undefined");
-    //     }
-    //     try {
-    //         return Result.ok(supplier());
-    //     } catch (error: unknown) {
-    //         let errorMessage: string;
-    //         if (error instanceof Error && error.message && error.message.trim() !== '') {
-    //             errorMessage = error.message;
-    //         } else if (typeof error === 'string' && error.trim() !== '') {
-    //             errorMessage = error;
-    //         } else {
-    //             errorMessage = "An unexpected error occurred during supplier execution.";
-    //         }
-    //         return Result.failure(Failure.wrap(errorMessage, error));
-    //     }
-    // }
-    //
-    public static async of<T>(supplier: () => T | Promise<T>): Promise<Result<T>> {
+    public static async of<T>(supplier: (signal: AbortSignal) => T | Promise<T>, options?: CallOptions): Promise<Result<T>> {
         if (!supplier) {
             return Result.failure(new IllegalArgument("Supplier provided to Result.of is null/undefined"));
         }
 
         try {
-            const result = supplier(); // Execute the supplier
+            if (options) {
+                return Result.ok(await runWithin(supplier, options));
+            }
+            const result = supplier(neverAborted()); // Execute the supplier
 
             // Check if the result is a Promise (asynchronously returned value)
             if (result instanceof Promise) {
@@ -295,82 +337,435 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
                 return Result.ok(result);
             }
         } catch (error: unknown) {
-            // console.log(error);
-            // Catch any errors (synchronous throw or Promise rejection)
-            let errorMessage: string;
-            if (error instanceof Error && error.message && error.message.trim() !== '') {
-                errorMessage = error.message;
-            } else if (typeof error === 'string' && error.trim() !== '') {
-                errorMessage = error;
-            } else if (error instanceof Failure) {
-                errorMessage = error.message;
+            // Catch any errors (synchronous throw or Promise rejection); timeouts and cancellations are reported as is
+            if (isInterruption(error)) {
+                return Result.failure(error);
+            }
+            return Result.failure(Failure.fromThrown(error, "An unexpected error occurred during supplier execution."));
+        }
+    }
+
+    /**
+     * Synchronous version of `Result.of`: runs a supplier function in a try-catch block.
+     * Async suppliers are rejected at compile time; use `Result.of` or `Result.ofAsync` for those.
+     * @param supplier The synchronous function to execute that returns a value.
+     * @returns A successful Result with the value, or a failed Result if an error was thrown.
+     */
+    public static try<T>(supplier: () => T, ...syncOnly: SyncOnly<T>): Result<T> {
+        if (!supplier) {
+            return Result.failure(new IllegalArgument("Supplier provided to Result.try is null/undefined"));
+        }
+        try {
+            return Result.ok(supplier());
+        } catch (error: unknown) {
+            return Result.failure(Failure.fromThrown(error, "An unexpected error occurred during supplier execution."));
+        }
+    }
+
+    /**
+     * Like `Result.of`, but returns a chainable `ResultAsync` instead of a Promise.
+     * @param supplier The function to execute that returns a value or a Promise of one; it receives an AbortSignal.
+     * @param options The optional time limit, deadline and signal, as for `Result.of`.
+     * @returns A ResultAsync resolving to the value, or to a failure if an error occurred.
+     */
+    public static ofAsync<T>(supplier: (signal: AbortSignal) => T | Promise<T>, options?: CallOptions): ResultAsync<T> {
+        return ResultAsync.from(Result.of(supplier, options));
+    }
+
+    /**
+     * Collects the values of a list (or tuple) of Results, stopping at the first failure.
+     * @param results The Results to collect.
+     * @returns A successful Result with every value in order, or the first failure.
+     */
+    public static all<R extends readonly Result<any, any>[]>(results: readonly [...R]): Result<OkValues<R>, FailureOf<R[number]>> {
+        if (!results) {
+            throw new IllegalArgument("Results provided to Result.all is null/undefined");
+        }
+        const values: unknown[] = [];
+        for (const result of results) {
+            if (!result._ok) {
+                return Result.failure(result._failure);
+            }
+            values.push(result._value);
+        }
+        return Result.ok(values as OkValues<R>);
+    }
+
+    /**
+     * Collects the values of a list (or tuple) of Results, accumulating every failure instead of stopping at the first.
+     * @param results The Results to collect.
+     * @returns A successful Result with every value in order, or an AggregateFailure holding all failures in order.
+     */
+    public static combine<R extends readonly Result<any, any>[]>(results: readonly [...R]): Result<OkValues<R>, AggregateFailure> {
+        if (!results) {
+            throw new IllegalArgument("Results provided to Result.combine is null/undefined");
+        }
+        const partitioned = Result.partition<unknown, Failure>(results);
+        const failures = partitioned.getSecond();
+        if (failures.length > 0) {
+            return Result.failure(new AggregateFailure(failures));
+        }
+        return Result.ok(partitioned.getFirst() as OkValues<R>);
+    }
+
+    /**
+     * Collects the values of a record of Results, stopping at the first failure (in key order).
+     * Turns `{a: Result<A>, b: Result<B>}` into `Result<{a: A, b: B}>`.
+     * @param results The record of Results to collect.
+     * @returns A successful Result with a record of the values, or the first failure.
+     */
+    public static allRecord<R extends Record<string, Result<any, any>>>(results: { readonly [K in keyof R]: R[K] }): Result<OkRecord<R>, FailureOf<R[keyof R]>> {
+        if (!results) {
+            throw new IllegalArgument("Results provided to Result.allRecord is null/undefined");
+        }
+        const values: Record<string, unknown> = {};
+        for (const key of Object.keys(results)) {
+            const result = results[key] as Result<unknown, FailureOf<R[keyof R]>>;
+            if (!result._ok) {
+                return Result.failure(result._failure as FailureOf<R[keyof R]>);
+            }
+            values[key] = result._value;
+        }
+        return Result.ok(values as OkRecord<R>);
+    }
+
+    /**
+     * Splits a list of Results into the successful values and the failures, each kept in order.
+     * @param results The Results to split.
+     * @returns A Pair of the successful values (first) and the failures (second).
+     */
+    public static partition<T, E extends Failure>(results: readonly Result<T, E>[]): Pair<T[], E[]> {
+        if (!results) {
+            throw new IllegalArgument("Results provided to Result.partition is null/undefined");
+        }
+        const values: T[] = [];
+        const failures: E[] = [];
+        for (const result of results) {
+            if (result._ok) {
+                values.push(result._value as T);
             } else {
-                errorMessage = "An unexpected error occurred during supplier execution.";
+                failures.push(result._failure as E);
+            }
+        }
+        return Pair.of(values, failures);
+    }
+
+    /**
+     * Maps every item to a Result and collects the values, stopping at (and not calling the mapper after) the first failure.
+     * @param items The items to map.
+     * @param mapper A function that maps an item (and its index) to a Result.
+     * @returns A successful Result with every mapped value in order, or the first failure.
+     */
+    public static traverse<A, T, E extends Failure>(items: readonly A[], mapper: (item: A, index: number) => Result<T, E>): Result<T[], E> {
+        if (!items || !mapper) {
+            throw new IllegalArgument("Items and mapper provided to Result.traverse cannot be null/undefined");
+        }
+        const values: T[] = [];
+        for (let index = 0; index < items.length; index++) {
+            const result = mapper(items[index] as A, index);
+            if (!result._ok) {
+                return Result.failure(result._failure as E);
             }
-            return Result.failure(Failure.wrap(errorMessage, error));
+            values.push(result._value as T);
         }
+        return Result.ok(values);
     }
 
+    /**
+     * Maps every item to a Result with an async function, processing at most `concurrency` items at the same time.
+     * In `failFast` mode, the first failure stops scheduling new items and aborts the signal passed to the items
+     * in flight; in `collect` mode, every item is processed. Unless the function throws, the returned ResultAsync settles once no item
+     * is in flight any more. Errors thrown by the function are not captured: they abort the other items and reject.
+     * @param items The items to map.
+     * @param mapper A function that maps an item (and its index) to a Result; it receives a signal aborted on fail-fast.
+     * @param options The concurrency, the mode and the progress callback.
+     * @returns A successful Result with every mapped value in order. Otherwise, in `failFast` mode the first failure
+     * to occur, and in `collect` mode an AggregateFailure holding all failures in item order.
+     */
+    public static traverseAsync<A, T, E extends Failure>(
+        items: readonly A[],
+        mapper: (item: A, index: number, signal: AbortSignal) => Awaitable<Result<T, E>>,
+        options: TraverseOptions<A, T, E> & { readonly mode: 'collect' }
+    ): ResultAsync<T[], AggregateFailure>;
+    public static traverseAsync<A, T, E extends Failure>(
+        items: readonly A[],
+        mapper: (item: A, index: number, signal: AbortSignal) => Awaitable<Result<T, E>>,
+        options?: TraverseOptions<A, T, E> & { readonly mode?: 'failFast' }
+    ): ResultAsync<T[], E>;
+    public static traverseAsync<A, T, E extends Failure>(
+        items: readonly A[],
+        mapper: (item: A, index: number, signal: AbortSignal) => Awaitable<Result<T, E>>,
+        options?: TraverseOptions<A, T, E>
+    ): ResultAsync<T[], E | AggregateFailure>;
+    public static traverseAsync<A, T, E extends Failure>(
+        items: readonly A[],
+        mapper: (item: A, index: number, signal: AbortSignal) => Awaitable<Result<T, E>>,
+        options: TraverseOptions<A, T, E> = {}
+    ): ResultAsync<T[], E | AggregateFailure> {
+        if (!items || !mapper) {
+            throw new IllegalArgument("Items and mapper provided to Result.traverseAsync cannot be null/undefined");
+        }
+        const concurrency = options.concurrency ?? 1;
+        if (concurrency !== Number.POSITIVE_INFINITY && (!Number.isInteger(concurrency) || concurrency < 1)) {
+            throw IllegalArgument.forArgument("concurrency", "must be a positive integer");
+        }
+        const collect = options.mode === 'collect';
+
+        const run = async (): Promise<Result<T[], E | AggregateFailure>> => {
+            const controller = new AbortController();
+            const results: Result<T, E>[] = [];
+            let firstFailure: E | undefined;
+            let next = 0;
+            let completed = 0;
+            const worker = async (): Promise<void> => {
+                while (next < items.length && !controller.signal.aborted) {
+                    const index = next++;
+                    const item = items[index] as A;
+                    const result = await mapper(item, index, controller.signal);
+                    results[index] = result;
+                    completed++;
+                    if (!result._ok && !collect && firstFailure === undefined) {
+                        firstFailure = result._failure as E;
+                        controller.abort();
+                    }
+                    options.onProgress?.({ item, index, result, completed, total: items.length });
+                }
+            };
+            try {
+                await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+            } catch (error: unknown) {
+                controller.abort();
+                throw error;
+            }
+            if (firstFailure !== undefined) {
+                return Result.failure(firstFailure);
+            }
+            const partitioned = Result.partition(results);
+            const failures = partitioned.getSecond();
+            return failures.length > 0 ? Result.failure(new AggregateFailure(failures)) : Result.ok(partitioned.getFirst());
+        };
+        return ResultAsync.from(run());
+    }
 
-/**
+    /**
+     * Runs a generator as do-notation: each `yield* result` evaluates to the successful value,
+     * and the first failure stops the generator (running its `finally` blocks) and becomes the outcome.
+     * @example
+     * Result.gen(function* () {
+     *     const a = yield* divide(10, 2);
+     *     const b = yield* divide(a, 5);
+     *     return a + b;
+     * }); // Result<number>
+     * @param generator A generator function that `yield*`s Results and returns the final value.
+     * @returns A successful Result with the returned value, or the first failure.
+     */
+    public static gen<Y extends Result<never, any>, T>(generator: () => Generator<Y, T, unknown>): Result<T, FailureOf<Y>> {
+        if (!generator) {
+            throw new IllegalArgument("Generator provided to Result.gen is null/undefined");
+        }
+        const iterator = generator();
+        const step = iterator.next();
+        if (step.done) {
+            return Result.ok(step.value);
+        }
+        iterator.return(undefined as T);
+        return step.value;
+    }
+
+    /**
+     * The async version of `Result.gen`: `yield*` accepts Results and ResultAsyncs, and `await` can be used freely.
+     * @example
+     * Result.genAsync(async function* () {
+     *     const user = yield* findUser(id);                 // ResultAsync<User, EntityNotFound>
+     *     const profile = yield* await loadProfile(user);   // Promise<Result<Profile>>
+     *     return profile.name;
+     * }); // ResultAsync<string, EntityNotFound | Failure>
+     * @param generator An async generator function that `yield*`s Results and returns the final value.
+     * @returns A ResultAsync resolving to the returned value, or to the first failure.
+     */
+    public static genAsync<Y extends Result<never, any>, T>(generator: () => AsyncGenerator<Y, T, unknown>): ResultAsync<T, FailureOf<Y>> {
+        if (!generator) {
+            throw new IllegalArgument("Generator provided to Result.genAsync is null/undefined");
+        }
+        return ResultAsync.from((async () => {
+            const iterator = generator();
+            const step = await iterator.next();
+            if (step.done) {
+                return Result.ok<T, FailureOf<Y>>(step.value);
+            }
+            await iterator.return(undefined as T);
+            return step.value;
+        })());
+    }
+
+    /**
+     * Implements the protocol behind `Result.gen`: a successful Result returns its value to `yield*`
+     * without yielding, a failed Result yields itself so the runner can stop.
+     */
+    public *[Symbol.iterator](): Generator<Result<never, E>, T, unknown> {
+        if (!this._ok) {
+            yield Result.failure<never, E>(this._failure as E);
+            throw new IllegalState("A failed Result cannot be resumed; iterate it with Result.gen");
+        }
+        return this._value as T;
+    }
+
+    /**
      * Transforms the successful value of the Result using a mapper function.
-     * If the Result is a failure, it remains a failure.
-     * If the mapper throws an error, the Result becomes a failure.
+     * If the Result is a failure, it remains a failure with the same failure type.
+     * If the mapper throws an error, the Result becomes a failure wrapping it, so the failure type widens to `Failure`.
      * @param mapper A function that transforms the successful value.
-     * @returns A new Result with the transformed value or the original failure.
+     * @returns A new Result with the transformed value, the original failure, or the error thrown by the mapper.
      */
-    public map<U>(mapper: (value: T) => U): Result<U> {
+    public map<U>(mapper: (value: T) => U): Result<U, E | Failure> {
         if (!mapper) {
             throw new IllegalArgument("Mapper provided to map is null/undefined");
         }
-        if (!this._value) {
-            return Result.failure<U>(this._failure ? this._failure : Failure.ofMessage("this is never called"));
-        } else {
-            try {
-                return Result.ok(mapper(this._value));
-            } catch (error: unknown) {
-                let errorMessage: string;
-                if (error instanceof Error && error.message && error.message.trim() !== '') {
-                    errorMessage = error.message;
-                } else if (typeof error === 'string' && error.trim() !== '') {
-                    errorMessage = error;
-                } else {
-                    errorMessage = "An error occurred during mapping.";
-                }
-                return Result.failure(Failure.wrap(errorMessage, error));
-            }
+        if (!this._ok) {
+            return Result.failure<U, E>(this._failure as E);
+        }
+        try {
+            return Result.ok<U, E>(mapper(this._value as T));
+        } catch (error: unknown) {
+            return Result.failure(Failure.fromThrown(error, "An error occurred during mapping."));
         }
     }
 
     /**
      * Chains operations that return a Result.
      * If the current Result is a failure, it remains a failure.
-     * If the current Result is successful, the mapper function is applied.
-     * If the mapper throws an error, the Result becomes a failure.
+     * If the current Result is successful, the mapper function is applied, and the failure
+     * type widens to include the failures the mapper can return.
+     * If the mapper throws an error, the Result becomes a failure wrapping it, so the failure type widens to `Failure`.
      * @param mapper A function that takes the successful value and returns a new Result.
-     * @returns A new Result from the mapper function or the original failure.
+     * @returns A new Result from the mapper function, the original failure, or the error thrown by the mapper.
      */
-    public flatMap<U>(mapper: (value: T) => Result<U>): Result<U> {
+    public flatMap<U, F extends Failure = never>(mapper: (value: T) => Result<U, F>): Result<U, E | F | Failure> {
         if (!mapper) {
             throw new IllegalArgument("Mapper provided to flatMap is null/undefined");
         }
-        if (!this._value) {
-            return Result.failure<U>(this._failure ? this._failure : Failure.ofMessage("this is never called"));
-        } else {
-            try {
-                return mapper(this._value);
-            } catch (error: unknown) {
-                let errorMessage: string;
-                if (error instanceof Error && error.message && error.message.trim() !== '') {
-                    errorMessage = error.message;
-                } else if (typeof error === 'string' && error.trim() !== '') {
-                    errorMessage = error;
-                } else {
-                    errorMessage = "An error occurred during flatMapping.";
-                }
-                return Result.failure(Failure.wrap(errorMessage, error));
-            }
+        if (!this._ok) {
+            return Result.failure<U, E | F>(this._failure as E);
+        }
+        try {
+            return mapper(this._value as T);
+        } catch (error: unknown) {
+            return Result.failure(Failure.fromThrown(error, "An error occurred during flatMapping."));
+        }
+    }
+
+    /**
+     * Like `map`, but errors thrown by the mapper are not captured, so the failure type stays exactly `E`.
+     * @param mapper A function that transforms the successful value.
+     * @returns A new Result with the transformed value or the original failure.
+     */
+    public mapUnchecked<U>(mapper: (value: T) => U): Result<U, E> {
+        if (!mapper) {
+            throw new IllegalArgument("Mapper provided to mapUnchecked is null/undefined");
+        }
+        return this._ok ? Result.ok<U, E>(mapper(this._value as T)) : Result.failure<U, E>(this._failure as E);
+    }
+
+    /**
+     * Like `flatMap`, but errors thrown by the mapper are not captured, so the failure type is exactly
+     * the original failures plus the failures the mapper can return.
+     * @param mapper A function that takes the successful value and returns a new Result.
+     * @returns A new Result from the mapper function or the original failure.
+     */
+    public flatMapUnchecked<U, F extends Failure = never>(mapper: (value: T) => Result<U, F>): Result<U, E | F> {
+        if (!mapper) {
+            throw new IllegalArgument("Mapper provided to flatMapUnchecked is null/undefined");
         }
+        return this._ok ? mapper(this._value as T) : Result.failure<U, E | F>(this._failure as E);
+    }
+
+    /**
+     * Converts this Result into an Option, discarding the failure.
+     * @returns An Option of the successful value (empty if the value is null or undefined), or an empty Option on failure.
+     */
+    public toOption(): Option<T> {
+        return this._ok ? Option.fromNullable(this._value) : Option.none<T>();
+    }
+
+    /**
+     * Lifts this Result into a `ResultAsync`, to continue the chain with async steps.
+     * @returns A ResultAsync resolving to this Result.
+     */
+    public toAsync(): ResultAsync<T, E> {
+        return ResultAsync.from(this);
+    }
+
+    /**
+     * Transforms the failure of the Result using a mapper function.
+     * If the Result is successful, it remains successful.
+     * @param mapper A function that transforms the Failure object into another Failure.
+     * @returns A new Result with the original value or the transformed failure.
+     */
+    public mapFailure<F extends Failure>(mapper: (failure: E) => F): Result<T, F> {
+        if (!mapper) {
+            throw new IllegalArgument("Mapper provided to mapFailure is null/undefined");
+        }
+        if (this._ok) {
+            return Result.ok<T, F>(this._value as T);
+        }
+        return Result.failure<T, F>(mapper(this._failure as E));
+    }
+
+    /**
+     * Returns this Result if it is successful; otherwise, returns the alternative Result.
+     * @param alternative The Result to use if this Result is a failure.
+     * @returns This Result or the alternative.
+     */
+    public orElse<U, F extends Failure = never>(alternative: Result<U, F>): Result<T | U, F> {
+        if (!alternative) {
+            throw new IllegalArgument("Alternative provided to orElse is null/undefined");
+        }
+        return this._ok ? Result.ok<T, F>(this._value as T) : alternative;
+    }
+
+    /**
+     * Turns a failure into a successful value computed from the Failure object.
+     * @param recovery A function that maps the Failure object to a fallback value.
+     * @returns A successful Result with the original or the recovered value.
+     */
+    public recover<U = T>(recovery: (failure: E) => U): Result<T | U, never> {
+        if (!recovery) {
+            throw new IllegalArgument("Recovery provided to recover is null/undefined");
+        }
+        return Result.ok(this._ok ? this._value as T : recovery(this._failure as E));
+    }
+
+    /**
+     * Chains a Result-returning operation on the failure path.
+     * If the Result is successful, it remains successful.
+     * @param recovery A function that takes the Failure object and returns a new Result.
+     * @returns This Result if successful, otherwise the Result from the recovery function.
+     */
+    public recoverWith<U, F extends Failure = never>(recovery: (failure: E) => Result<U, F>): Result<T | U, F> {
+        if (!recovery) {
+            throw new IllegalArgument("Recovery provided to recoverWith is null/undefined");
+        }
+        return this._ok ? Result.ok<T, F>(this._value as T) : recovery(this._failure as E);
+    }
+
+    /**
+     * Turns a failure of the given class (or a subclass, see `Failure.isA`) into a successful value.
+     * Any other failure is passed through unchanged.
+     * @param failureClass The Failure class to recover from.
+     * @param recovery A function that maps the matching failure to a fallback value.
+     * @returns A successful Result if the failure matched, otherwise this Result.
+     */
+    public recoverIf<F extends E, U = T>(failureClass: FailureClass<F>, recovery: (failure: F) => U): Result<T | U, Exclude<E, F>> {
+        if (!failureClass || !recovery) {
+            throw new IllegalArgument("Class and recovery provided to recoverIf cannot be null/undefined");
+        }
+        if (this._ok) {
+            return Result.ok(this._value as T);
+        }
+        if ((this._failure as E).isA(failureClass)) {
+            return Result.ok(recovery(this._failure as F));
+        }
+        return Result.failure<T | U, Exclude<E, F>>(this._failure as Exclude<E, F>);
     }
 
     /**
@@ -394,11 +789,33 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
     // Note: hashCode is less common/critical in JS/TS without specific needs for hash-based collections
     // If needed, you could implement a simple hash based on value or failure.
 
+    /**
+     * Returns the JSON form of this Result: `{ ok: true, value }` or `{ ok: false, failure }`,
+     * with the failure in the tagged form of `Failure.toJSON`. Called by `JSON.stringify`.
+     */
+    public toJSON(): ResultJSON<T> {
+        return this._ok ? { ok: true, value: this._value as T } : { ok: false, failure: (this._failure as E).toJSON() };
+    }
+
+    /**
+     * Recreates a Result from its JSON form. The value is taken as is; the failure is recreated by the registry,
+     * so it keeps its class, cause chain, code and context.
+     * @param json The JSON form produced by `toJSON` (after `JSON.parse`, if it was sent as text).
+     * @param registry The registry of failure types; defaults to the built-in failures.
+     * @returns The Result.
+     */
+    public static fromJSON<T>(json: ResultJSON<T>, registry: FailureRegistry = FailureRegistry.defaults()): Result<T, Failure> {
+        if (!json || typeof json.ok !== 'boolean') {
+            throw new IllegalArgument("JSON provided to Result.fromJSON is not the JSON form of a Result");
+        }
+        return json.ok ? Result.ok<T, Failure>(json.value) : Result.failure<T, Failure>(registry.fromJSON(json.failure));
+    }
+
     /**
      * Provides a string representation of the Result.
      */
     public toString(): string {
-        if (this.isOk()) {
+        if (this._ok) {
             return `Result.Ok(${JSON.stringify(this._value)})`;
         } else {
             return `Result.Failure(${this._failure?.toString()})`;
@@ -415,7 +832,7 @@ export class Result<T> { // Renamed to ResultClass to avoid conflict with `type
  * @param value The successful value.
  * @returns A Result in the success state.
  */
-export function okResult<T>(value: T): Result<T> {
+export function okResult<T, E extends Failure = never>(value: T): Result<T, E> {
     return Result.ok(value);
 }
 
@@ -424,7 +841,7 @@ export function okResult<T>(value: T): Result<T> {
  * @param error The Failure object.
  * @returns A Result in the failure state.
  */
-export function failureResult<T>(error: Failure): Result<T> {
+export function failureResult<T = never, E extends Failure = Failure>(error: E): Result<T, E> {
     return Result.failure(error);
 }
 
@@ -446,6 +863,15 @@ export function resultOf<T>(supplier: () => T): Promise<Result<T>> {
     return Result.of(supplier);
 }
 
+/**
+ * Creates a Result by running a synchronous supplier function in a try-catch block.
+ * @param supplier The synchronous function to execute that returns a value.
+ * @returns A successful Result with the value, or a failed Result if an error was thrown.
+ */
+export function resultTry<T>(supplier: () => T, ...syncOnly: SyncOnly<T>): Result<T> {
+    return Result.try(supplier, ...syncOnly);
+}
+
 // --- Example Usage ---
 //
 // function divide(a: number, b: number): Result<number> {
@@ -0,0 +1,184 @@
+import type {Failure} from "./failure";
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {Result} from "./result";
+
+/**
+ * A value that may or may not be a Promise.
+ */
+export type Awaitable<T> = T | PromiseLike<T>;
+
+/**
+ * `ResultAsync` wraps a `Promise<Result<T, E>>` so asynchronous steps can be chained without
+ * awaiting and checking the Result in between. It is thenable, so `await` yields the plain `Result`.
+ * Callbacks may be synchronous or return a Promise. Unlike `Result.map` and `Result.flatMap`, errors thrown by callbacks
+ * are not captured: they reject the underlying Promise.
+ * @template T The type of the successful value.
+ * @template E The type of the failure. Defaults to `Failure`.
+ */
+export class ResultAsync<T, E extends Failure = Failure> implements PromiseLike<Result<T, E>> {
+    private readonly _promise: Promise<Result<T, E>>;
+
+    private constructor(promise: Promise<Result<T, E>>) {
+        this._promise = promise;
+    }
+
+    /**
+     * Creates a ResultAsync from a Result or a Promise of a Result.
+     * @param result The Result, or a Promise resolving to it.
+     * @returns A ResultAsync resolving to the Result.
+     */
+    public static from<T, E extends Failure = never>(result: Awaitable<Result<T, E>>): ResultAsync<T, E> {
+        if (!result) {
+            throw new IllegalArgument("Result provided to ResultAsync.from is null/undefined");
+        }
+        return new ResultAsync<T, E>(Promise.resolve(result));
+    }
+
+    /**
+     * Creates a successful ResultAsync.
+     * @param value The successful value.
+     * @returns A ResultAsync resolving to a successful Result.
+     */
+    public static ok<T, E extends Failure = never>(value: T): ResultAsync<T, E> {
+        return ResultAsync.from(Result.ok<T, E>(value));
+    }
+
+    /**
+     * Creates a failed ResultAsync.
+     * @param failure The Failure object.
+     * @returns A ResultAsync resolving to a failed Result.
+     */
+    public static failure<T = never, E extends Failure = Failure>(failure: E): ResultAsync<T, E> {
+        return ResultAsync.from(Result.failure<T, E>(failure));
+    }
+
+    /**
+     * Attaches callbacks to the underlying Promise, making `ResultAsync` awaitable.
+     */
+    public then<A = Result<T, E>, B = never>(
+        onfulfilled?: ((result: Result<T, E>) => A | PromiseLike<A>) | null,
+        onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+    ): Promise<A | B> {
+        return this._promise.then(onfulfilled, onrejected);
+    }
+
+    /**
+     * Transforms the successful value using a sync or async mapper function.
+     * @param mapper A function that transforms the successful value.
+     * @returns A new ResultAsync with the transformed value or the original failure.
+     */
+    public map<U>(mapper: (value: T) => Awaitable<U>): ResultAsync<U, E> {
+        if (!mapper) {
+            throw new IllegalArgument("Mapper provided to map is null/undefined");
+        }
+        return new ResultAsync(this._promise.then(async (result) =>
+            result.isOk() ? Result.ok<U, E>(await mapper(result.get())) : Result.failure<U, E>(result.failure())
+        ));
+    }
+
+    /**
+     * Chains an operation that returns a Result, a Promise of a Result or a ResultAsync.
+     * The failure type widens to include the failures the mapper can return.
+     * @param mapper A function that takes the successful value and returns a new Result.
+     * @returns A new ResultAsync from the mapper function or the original failure.
+     */
+    public flatMap<U, F extends Failure = never>(mapper: (value: T) => Awaitable<Result<U, F>>): ResultAsync<U, E | F> {
+        if (!mapper) {
+            throw new IllegalArgument("Mapper provided to flatMap is null/undefined");
+        }
+        return new ResultAsync<U, E | F>(this._promise.then((result) =>
+            result.isOk() ? mapper(result.get()) : Result.failure<U, E | F>(result.failure())
+        ));
+    }
+
+    /**
+     * Transforms the failure using a sync or async mapper function.
+     * @param mapper A function that transforms the Failure object into another Failure.
+     * @returns A new ResultAsync with the original value or the transformed failure.
+     */
+    public mapFailure<F extends Failure>(mapper: (failure: E) => Awaitable<F>): ResultAsync<T, F> {
+        if (!mapper) {
+            throw new IllegalArgument("Mapper provided to mapFailure is null/undefined");
+        }
+        return new ResultAsync(this._promise.then(async (result) =>
+            result.isOk() ? Result.ok<T, F>(result.get()) : Result.failure<T, F>(await mapper(result.failure()))
+        ));
+    }
+
+    /**
+     * Turns a failure into a successful value computed, synchronously or not, from the Failure object.
+     * @param recovery A function that maps the Failure object to a fallback value.
+     * @returns A ResultAsync that is always successful.
+     */
+    public recover<U = T>(recovery: (failure: E) => Awaitable<U>): ResultAsync<T | U, never> {
+        if (!recovery) {
+            throw new IllegalArgument("Recovery provided to recover is null/undefined");
+        }
+        return new ResultAsync(this._promise.then(async (result) =>
+            Result.ok<T | U, never>(result.isOk() ? result.get() : await recovery(result.failure()))
+        ));
+    }
+
+    /**
+     * Chains a Result-returning operation on the failure path.
+     * @param recovery A function that takes the Failure object and returns a new Result, a Promise of one or a ResultAsync.
+     * @returns This ResultAsync if successful, otherwise the Result from the recovery function.
+     */
+    public recoverWith<U, F extends Failure = never>(recovery: (failure: E) => Awaitable<Result<U, F>>): ResultAsync<T | U, F> {
+        if (!recovery) {
+            throw new IllegalArgument("Recovery provided to recoverWith is null/undefined");
+        }
+        return new ResultAsync<T | U, F>(this._promise.then((result) =>
+            result.isOk() ? Result.ok<T | U, F>(result.get()) : recovery(result.failure())
+        ));
+    }
+
+    /**
+     * Executes an action if the Result is successful, without changing it.
+     * @param action The function to execute with the successful value; a returned Promise is awaited.
+     */
+    public inspectOk(action: (value: T) => Awaitable<void>): ResultAsync<T, E> {
+        if (!action) {
+            throw new IllegalArgument("Action provided to inspectOk is null/undefined");
+        }
+        return new ResultAsync(this._promise.then(async (result) => {
+            if (result.isOk()) {
+                await action(result.get());
+            }
+            return result;
+        }));
+    }
+
+    /**
+     * Executes an action if the Result is a failure, without changing it.
+     * @param action The function to execute with the Failure object; a returned Promise is awaited.
+     */
+    public inspectFailure(action: (failure: E) => Awaitable<void>): ResultAsync<T, E> {
+        if (!action) {
+            throw new IllegalArgument("Action provided to inspectFailure is null/undefined");
+        }
+        return new ResultAsync(this._promise.then(async (result) => {
+            if (result.isFailure()) {
+                await action(result.failure());
+            }
+            return result;
+        }));
+    }
+
+    /**
+     * Implements the protocol behind `Result.genAsync`, so `yield* resultAsync` awaits the Result
+     * and evaluates to its value, or stops the generator on failure.
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<Result<never, E>, T, unknown> {
+        return yield* await this._promise;
+    }
+
+    /**
+     * Folds the eventual Result into a single value by running the handler for its state.
+     * @param handlers `ok` receives the successful value, `failure` receives the Failure object.
+     * @returns A Promise of the value returned by the selected handler.
+     */
+    public match<R>(handlers: { ok: (value: T) => Awaitable<R>; failure: (failure: E) => Awaitable<R> }): Promise<R> {
+        return this._promise.then((result) => result.match(handlers));
+    }
+}
@@ -0,0 +1,183 @@
+import {Deadline, schedule} from "./deadline";
+import type {Failure, FailureClass} from "./failure";
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {RetriesExhausted, type RetryAttempt} from "./failures/RetriesExhausted";
+import {TimeoutFailure} from "./failures/TimeoutFailure";
+import {Result} from "./result";
+import {type Awaitable, ResultAsync} from "./resultAsync";
+import {neverAborted} from "./signals";
+
+/**
+ * Computes the delay before a retry.
+ * @param retry The number of the retry, starting at 1 for the delay after the first attempt.
+ * @param previousDelayMs The previous delay, or 0 before the first retry.
+ * @param random A random number generator returning values in [0, 1).
+ * @returns The delay in milliseconds.
+ */
+export type Backoff = (retry: number, previousDelayMs: number, random: () => number) => number;
+
+/**
+ * Waits the same delay before every retry.
+ * @param delayMs The delay in milliseconds.
+ */
+export function fixedBackoff(delayMs: number): Backoff {
+    return () => delayMs;
+}
+
+/**
+ * Multiplies the delay by `factor` after every retry: `initialMs`, `initialMs * factor`, ..., capped at `maxMs`.
+ */
+export function exponentialBackoff({ initialMs = 100, factor = 2, maxMs = Number.POSITIVE_INFINITY }: {
+    initialMs?: number;
+    factor?: number;
+    maxMs?: number;
+} = {}): Backoff {
+    return (retry) => Math.min(maxMs, initialMs * Math.pow(factor, retry - 1));
+}
+
+/**
+ * Picks a random delay between `baseMs` and three times the previous delay, capped at `maxMs`
+ * ("decorrelated jitter"), so clients that failed together do not retry together.
+ */
+export function decorrelatedJitterBackoff({ baseMs = 100, maxMs = 30_000 }: {
+    baseMs?: number;
+    maxMs?: number;
+} = {}): Backoff {
+    return (_retry, previousDelayMs, random) => {
+        const upper = Math.max(baseMs, previousDelayMs * 3);
+        return Math.min(maxMs, baseMs + random() * (upper - baseMs));
+    };
+}
+
+/**
+ * When and how often `retry` runs an operation again.
+ */
+export interface RetryPolicy {
+    /** The total number of attempts, including the first one. Defaults to 3. */
+    readonly maxAttempts?: number;
+    /** The delay before each retry. Defaults to `exponentialBackoff()`. */
+    readonly backoff?: Backoff;
+    /**
+     * The time budget for all attempts and delays. An attempt still running when it runs out fails with a TimeoutFailure
+     * (and its signal is aborted), and no retry is started if its delay would exceed it. The running attempt is bounded
+     * with `sleep`, so an injected `sleep` and `clock` control the budget too.
+     */
+    readonly maxElapsedMs?: number;
+    /** Only failures of these classes (or subclasses) are retried. Defaults to every failure. */
+    readonly retryOn?: readonly FailureClass[];
+    /** Failures of these classes (or subclasses) are never retried, even if they match `retryOn`. */
+    readonly neverRetryOn?: readonly FailureClass[];
+    /** An additional check, e.g. `(failure) => !failure.isA(ApiFailure) || failure.retryable`. */
+    readonly shouldRetry?: (failure: Failure, attempt: number) => boolean;
+    /** Called before waiting for each retry. */
+    readonly onRetry?: (failure: Failure, attempt: number, delayMs: number) => void;
+    /** The clock used for `maxElapsedMs` and attempt times. Defaults to `Date.now`. */
+    readonly clock?: () => number;
+    /**
+     * Waits between attempts, and for the rest of the `maxElapsedMs` budget while an attempt runs. `retry` aborts
+     * `signal` once it no longer needs the wait, so the wait may stop early. Defaults to `setTimeout`.
+     */
+    readonly sleep?: (ms: number, signal: AbortSignal) => Promise<void>;
+    /** The random number generator used by jittered backoffs. Defaults to `Math.random`. */
+    readonly random?: () => number;
+}
+
+function defaultSleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const cancel = schedule(resolve, ms);
+        signal.addEventListener('abort', cancel, { once: true });
+    });
+}
+
+/**
+ * Runs an attempt until it settles or `sleep` has waited out the time left before the deadline,
+ * in which case the attempt's signal is aborted and it fails with a TimeoutFailure.
+ */
+async function raceDeadline<T, E extends Failure>(
+    attempt: (signal: AbortSignal) => Awaitable<Result<T, E>>,
+    deadline: Deadline,
+    sleep: (ms: number, signal: AbortSignal) => Promise<void>
+): Promise<Result<T, E | TimeoutFailure>> {
+    const remainingMs = Math.max(0, deadline.remainingMs());
+    const controller = new AbortController();
+    const waiting = new AbortController();
+    let settled = false;
+    const timedOut = sleep(remainingMs, waiting.signal).then(() => {
+        const failure = TimeoutFailure.after(remainingMs);
+        if (!settled) {
+            controller.abort(failure);
+        }
+        return Result.failure<T, TimeoutFailure>(failure);
+    });
+    timedOut.catch(() => undefined); // A sleep may reject once its wait is no longer needed
+    try {
+        return await Promise.race([Promise.resolve().then(() => attempt(controller.signal)), timedOut]);
+    } finally {
+        settled = true;
+        waiting.abort();
+    }
+}
+
+/**
+ * Runs a Result-returning operation, synchronous or not, until it succeeds or the policy stops retrying.
+ * Errors thrown by the operation are not captured; wrap it with `Result.of` to retry them as failures.
+ * @param operation The operation; it receives the attempt number, starting at 1, and a signal aborted
+ * when the `maxElapsedMs` budget runs out.
+ * @param policy The retry policy.
+ * @returns The first successful Result. A failure on the only attempt is returned as is. After several attempts,
+ * the failure is a `RetriesExhausted` holding every attempt, whose cause is the last failure, whether the attempts
+ * or the time budget ran out or the last failure is one the policy does not retry.
+ */
+export function retry<T, E extends Failure>(
+    operation: (attempt: number, signal: AbortSignal) => Awaitable<Result<T, E>>,
+    policy: RetryPolicy = {}
+): ResultAsync<T, E | RetriesExhausted | TimeoutFailure> {
+    if (!operation) {
+        throw new IllegalArgument("Operation provided to retry is null/undefined");
+    }
+    const maxAttempts = policy.maxAttempts ?? 3;
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+        throw IllegalArgument.forArgument("maxAttempts", "must be a positive integer");
+    }
+    const maxElapsedMs = policy.maxElapsedMs;
+    if (maxElapsedMs !== undefined && (typeof maxElapsedMs !== 'number' || Number.isNaN(maxElapsedMs) || maxElapsedMs < 0)) {
+        throw IllegalArgument.forArgument("maxElapsedMs", "must be a non-negative number");
+    }
+    const backoff = policy.backoff ?? exponentialBackoff();
+    const clock = policy.clock ?? Date.now;
+    const sleep = policy.sleep ?? defaultSleep;
+    const random = policy.random ?? Math.random;
+
+    const retryable = (failure: Failure, attempt: number): boolean =>
+        (!policy.retryOn || policy.retryOn.some((failureClass) => failure.isA(failureClass)))
+        && !(policy.neverRetryOn ?? []).some((failureClass) => failure.isA(failureClass))
+        && (!policy.shouldRetry || policy.shouldRetry(failure, attempt));
+
+    const run = async (): Promise<Result<T, E | RetriesExhausted | TimeoutFailure>> => {
+        const start = clock();
+        const deadline = maxElapsedMs === undefined ? undefined : Deadline.after(maxElapsedMs, clock);
+        const attempts: RetryAttempt[] = [];
+        let delayMs = 0;
+        for (let attempt = 1; ; attempt++) {
+            const result: Result<T, E | TimeoutFailure> = deadline
+                ? await raceDeadline((signal) => operation(attempt, signal), deadline, sleep)
+                : await operation(attempt, neverAborted());
+            if (result.isOk()) {
+                return Result.ok(result.get());
+            }
+            const failure = result.failure();
+            attempts.push({ attempt, failure, failedAt: clock() });
+            if (attempt < maxAttempts && retryable(failure, attempt)) {
+                delayMs = Math.max(0, backoff(attempt, delayMs, random));
+                const withinBudget = maxElapsedMs === undefined || clock() - start + delayMs <= maxElapsedMs;
+                if (withinBudget) {
+                    policy.onRetry?.(failure, attempt, delayMs);
+                    await sleep(delayMs, neverAborted());
+                    continue;
+                }
+            }
+            return Result.failure(attempts.length === 1 ? failure : new RetriesExhausted(attempts));
+        }
+    };
+    return ResultAsync.from(run());
+}
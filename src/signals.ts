@@ -0,0 +1,6 @@
+/**
+ * Returns a signal that is never aborted, for suppliers run without options.
+ */
+export function neverAborted(): AbortSignal {
+    return new AbortController().signal;
+}
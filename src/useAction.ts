@@ -0,0 +1,24 @@
+import type {ActionState} from "./action";
+import type {Action} from "./actionRunner";
+
+/**
+ * The signature of React's `useSyncExternalStore`.
+ */
+export type UseSyncExternalStore = <S>(
+    subscribe: (onStoreChange: () => void) => () => void,
+    getSnapshot: () => S,
+    getServerSnapshot?: () => S
+) => S;
+
+/**
+ * Creates a React hook returning the current state of an Action and re-rendering when it changes.
+ * React is passed in rather than imported, so this library does not depend on it:
+ * `export const useAction = createUseAction(React.useSyncExternalStore);`
+ * @param useSyncExternalStore React's `useSyncExternalStore`.
+ * @returns The `useAction` hook.
+ */
+export function createUseAction(useSyncExternalStore: UseSyncExternalStore) {
+    return function useAction<TArgs extends readonly unknown[], T>(action: Action<TArgs, T>): ActionState<T> {
+        return useSyncExternalStore(action.subscribe, action.getSnapshot, action.getSnapshot);
+    };
+}
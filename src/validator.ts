@@ -0,0 +1,193 @@
+import {EntityValidationFailed} from "./failures/EntityValidationFailed";
+import {IllegalArgument} from "./failures/IllegalArgument";
+import {fieldPath, InvalidRequest, InvalidRequestBuilder} from "./failures/InvalidRequest";
+import {Result} from "./result";
+
+type Check<T> = (value: T, path: string, errors: InvalidRequestBuilder) => void;
+
+/**
+ * The validators of an object's fields, keyed by field name. Fields without a validator are not checked.
+ * @template T The type of the object.
+ */
+export type ObjectValidators<T> = { readonly [K in keyof T]?: Validator<T[K]> };
+
+/**
+ * `Validator` is a composable check of a value that reports every violation, keyed by field path,
+ * instead of stopping at the first one. Validators other than `required` and `custom` skip `null`
+ * and `undefined`, so optional fields are only checked when present:
+ * `Validator.required().and(Validator.minLength(3))`.
+ * @template T The type of the value being checked.
+ */
+export class Validator<T> {
+    private readonly check: Check<T>;
+
+    private constructor(check: Check<T>) {
+        this.check = check;
+    }
+
+    /**
+     * Creates a Validator from a predicate. Unlike the other validators, it also receives `null` and `undefined`.
+     * @param predicate Returns `true` if the value is valid.
+     * @param reason The reason reported when the predicate returns `false`.
+     * @param field An optional field path, relative to the value, to report the reason under (e.g. for cross-field rules).
+     * @returns The Validator.
+     */
+    public static custom<T>(predicate: (value: T) => boolean, reason: string, field: string = ''): Validator<T> {
+        if (!predicate || !reason) {
+            throw new IllegalArgument("Predicate and reason provided to custom cannot be null/undefined");
+        }
+        return new Validator<T>((value, path, errors) => {
+            if (!predicate(value)) {
+                errors.add(fieldPath(path, field), reason);
+            }
+        });
+    }
+
+    /**
+     * Requires the value to be neither `null` nor `undefined`.
+     * @param reason The reason reported for a missing value.
+     */
+    public static required(reason: string = 'is required'): Validator<unknown> {
+        return Validator.custom((value) => value !== null && value !== undefined, reason);
+    }
+
+    /**
+     * Requires a number to be greater than or equal to `min`.
+     * @param min The smallest valid number.
+     * @param reason The reason reported for a smaller number.
+     */
+    public static min(min: number, reason: string = `must be at least ${min}`): Validator<number | null | undefined> {
+        return Validator.present((value: number) => value >= min, reason);
+    }
+
+    /**
+     * Requires a number to be less than or equal to `max`.
+     * @param max The largest valid number.
+     * @param reason The reason reported for a larger number.
+     */
+    public static max(max: number, reason: string = `must be at most ${max}`): Validator<number | null | undefined> {
+        return Validator.present((value: number) => value <= max, reason);
+    }
+
+    /**
+     * Requires a string or an array to have at least `min` characters or elements.
+     * @param min The smallest valid length.
+     * @param reason The reason reported for a shorter value.
+     */
+    public static minLength(min: number, reason: string = `must have a length of at least ${min}`): Validator<string | readonly unknown[] | null | undefined> {
+        return Validator.present((value: string | readonly unknown[]) => value.length >= min, reason);
+    }
+
+    /**
+     * Requires a string or an array to have at most `max` characters or elements.
+     * @param max The largest valid length.
+     * @param reason The reason reported for a longer value.
+     */
+    public static maxLength(max: number, reason: string = `must have a length of at most ${max}`): Validator<string | readonly unknown[] | null | undefined> {
+        return Validator.present((value: string | readonly unknown[]) => value.length <= max, reason);
+    }
+
+    /**
+     * Requires a string to match a regular expression. The `lastIndex` of global expressions is ignored.
+     * @param regex The expression to search for.
+     * @param reason The reason reported for a string that does not match.
+     */
+    public static pattern(regex: RegExp, reason: string = `must match ${regex}`): Validator<string | null | undefined> {
+        if (!regex) {
+            throw new IllegalArgument("Regex provided to pattern is null/undefined");
+        }
+        return Validator.present((value: string) => value.search(regex) !== -1, reason);
+    }
+
+    /**
+     * Requires the value to be one of the allowed values, compared with `===`.
+     * @param allowed The allowed values.
+     * @param reason The reason reported for any other value.
+     */
+    public static oneOf<T>(allowed: readonly T[], reason: string = `must be one of ${allowed.join(', ')}`): Validator<T | null | undefined> {
+        return Validator.present((value: T) => allowed.includes(value), reason);
+    }
+
+    /**
+     * Checks the fields of an object, reporting violations under the field name (e.g. `address.city`).
+     * @param validators The validators keyed by field name.
+     * @returns A Validator of the object.
+     */
+    public static object<T extends object>(validators: ObjectValidators<T>): Validator<T | null | undefined> {
+        if (!validators) {
+            throw new IllegalArgument("Validators provided to object are null/undefined");
+        }
+        const entries = Object.entries(validators) as [keyof T & string, Validator<unknown> | undefined][];
+        return new Validator<T | null | undefined>((value, path, errors) => {
+            if (value === null || value === undefined) {
+                return;
+            }
+            for (const [field, validator] of entries) {
+                validator?.check(value[field], fieldPath(path, field), errors);
+            }
+        });
+    }
+
+    /**
+     * Checks every element of an array, reporting violations under the element's index (e.g. `items[2].price`).
+     * @param validator The Validator of a single element.
+     * @returns A Validator of the array.
+     */
+    public static array<T>(validator: Validator<T>): Validator<readonly T[] | null | undefined> {
+        if (!validator) {
+            throw new IllegalArgument("Validator provided to array is null/undefined");
+        }
+        return new Validator<readonly T[] | null | undefined>((value, path, errors) => {
+            value?.forEach((element, index) => validator.check(element, fieldPath(path, index), errors));
+        });
+    }
+
+    /**
+     * Combines validators into one that runs all of them and reports every violation.
+     * @param validators The validators to combine.
+     */
+    public static all<T>(...validators: readonly Validator<T>[]): Validator<T> {
+        return new Validator<T>((value, path, errors) => validators.forEach((validator) => validator.check(value, path, errors)));
+    }
+
+    /**
+     * Creates a Validator from a predicate that is only called with values that are neither `null` nor `undefined`.
+     */
+    private static present<T>(predicate: (value: T) => boolean, reason: string): Validator<T | null | undefined> {
+        return Validator.custom<T | null | undefined>((value) => value === null || value === undefined || predicate(value), reason);
+    }
+
+    /**
+     * Runs this Validator and another one, reporting the violations of both.
+     * @param other The Validator to run after this one.
+     * @returns A Validator of values accepted by both.
+     */
+    public and<U>(other: Validator<U>): Validator<T & U> {
+        if (!other) {
+            throw new IllegalArgument("Validator provided to and is null/undefined");
+        }
+        return Validator.all<T & U>(this, other);
+    }
+
+    /**
+     * Validates a value.
+     * @param value The value to check.
+     * @returns The value if it is valid, otherwise an InvalidRequest with every violation keyed by field path.
+     * Violations of the value itself are reported under the empty path.
+     */
+    public validate<V extends T>(value: V): Result<V, InvalidRequest> {
+        const errors = InvalidRequest.builder();
+        this.check(value, '', errors);
+        return errors.hasReasons() ? Result.failure(errors.build()) : Result.ok(value);
+    }
+
+    /**
+     * Validates a domain entity, reporting violations as an EntityValidationFailed instead of an InvalidRequest.
+     * @param entityType The type of the entity, e.g. `Order`.
+     * @param value The entity to check.
+     * @returns The entity if it is valid, otherwise an EntityValidationFailed with one violation per reason.
+     */
+    public validateEntity<V extends T>(entityType: string, value: V): Result<V, EntityValidationFailed> {
+        return this.validate(value).mapFailure((invalid) => EntityValidationFailed.fromInvalidRequest(entityType, invalid));
+    }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import type { ActionState } from "../src/action";
+import { actionStateFromJSON, actionStateToJSON, fail, failureState, hasValue, initState, okState, startLoading } from "../src/action";
+import { Failure } from "../src/failure";
+import { IllegalArgument } from "../src/failures/IllegalArgument";
+
+function roundTrip<T>(state: ActionState<T>): ActionState<T> {
+    return actionStateFromJSON<T>(JSON.parse(JSON.stringify(actionStateToJSON(state))));
+}
+
+describe("failureState", () => {
+    const failure = new Failure("failed");
+
+    it("keeps an undefined last value when it is passed", () => {
+        expect(hasValue(failureState<void>(failure, undefined))).toBe(true);
+        expect(hasValue(failureState(failure))).toBe(false);
+    });
+
+    it("keeps the value of a Result<void> action after a failed refresh", () => {
+        const refreshing = startLoading(okState<void>(undefined));
+        expect(hasValue(refreshing)).toBe(true);
+        const failed = fail(refreshing, failure);
+        expect(hasValue(failed)).toBe(true);
+        expect(failed.value).toBeUndefined();
+    });
+
+    it("keeps the presence of the value through the JSON text", () => {
+        expect(hasValue(roundTrip(failureState<void>(failure, undefined)))).toBe(true);
+        expect(hasValue(roundTrip(failureState(failure)))).toBe(false);
+        expect(hasValue(roundTrip(startLoading(okState<void>(undefined))))).toBe(true);
+        expect(hasValue(roundTrip(startLoading(initState())))).toBe(false);
+    });
+
+    it("recreates the failure and the value through the JSON text", () => {
+        const state = roundTrip(failureState(new IllegalArgument("bad"), 5));
+        expect(state.status).toBe("failure");
+        expect(state.status === "failure" && state.failure).toBeInstanceOf(IllegalArgument);
+        expect(hasValue(state) && state.value).toBe(5);
+    });
+});
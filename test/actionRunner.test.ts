@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { type ActionContext, Action } from "../src/actionRunner";
+import { Result } from "../src/result";
+
+/** A function for `Action.of` whose calls the test completes by hand, in any order. */
+function controlled<T>() {
+    const calls: { args: unknown[]; signal: AbortSignal; resolve: (value: T) => void }[] = [];
+    const fn = (context: ActionContext, ...args: unknown[]) => new Promise<T>((resolve) => {
+        calls.push({ args, signal: context.signal, resolve });
+    });
+    return { calls, fn };
+}
+
+describe("Action.run", () => {
+    it("is running while listeners are told about the loading state", async () => {
+        let calls = 0;
+        const action = Action.of(async (_context, id: number) => {
+            calls++;
+            return id;
+        });
+        const seen: [string, boolean][] = [];
+        action.subscribe(() => {
+            const state = action.getSnapshot();
+            seen.push([state.status, action.isRunning()]);
+            if (state.status === "loading") {
+                void action.run(1);
+            }
+        });
+
+        const result = await action.run(1);
+
+        expect(result.get()).toBe(1);
+        expect(calls).toBe(1);
+        expect(seen).toEqual([["loading", true], ["ok", false]]);
+    });
+});
+
+describe("Action", () => {
+    it("returns the run in flight for the same arguments instead of starting another", async () => {
+        const { calls, fn } = controlled<string>();
+        const action = Action.of(fn);
+
+        const first = action.run("a");
+        expect(action.run("a")).toBe(first);
+        expect(calls).toHaveLength(1);
+
+        const withoutDedupe = Action.of(controlled<string>().fn, { dedupe: false });
+        expect(withoutDedupe.run("a")).not.toBe(withoutDedupe.run("a"));
+    });
+
+    it("discards the result of a run superseded by a newer one and aborts its signal", async () => {
+        const { calls, fn } = controlled<string>();
+        const action = Action.of(fn);
+
+        const older = action.run("a");
+        const newer = action.run("b");
+        expect(calls[0]?.signal.aborted).toBe(true);
+
+        calls[1]?.resolve("B");
+        expect((await newer).get()).toBe("B");
+        calls[0]?.resolve("A");
+        expect((await older).get()).toBe("A");
+
+        expect(action.getSnapshot()).toMatchObject({ status: "ok", value: "B" });
+        expect(action.isRunning()).toBe(false);
+    });
+
+    it("restores the state from before the runs on cancel, and discards their results", async () => {
+        const { calls, fn } = controlled<string>();
+        const action = Action.of(fn);
+        const done = action.run("a");
+        calls[0]?.resolve("A");
+        await done;
+        const before = action.getSnapshot();
+
+        const first = action.run("b");
+        void action.run("c");
+        expect(action.getSnapshot()).toMatchObject({ status: "loading", refreshing: true, value: "A" });
+        action.cancel();
+
+        expect(action.getSnapshot()).toBe(before);
+        expect(calls.slice(1).map((call) => call.signal.aborted)).toEqual([true, true]);
+        calls[1]?.resolve("B");
+        await first;
+        expect(action.getSnapshot()).toBe(before);
+    });
+
+    it("moves back to the init state on reset, aborting the run in flight", async () => {
+        const { calls, fn } = controlled<string>();
+        const action = Action.of(fn);
+        const run = action.run("a");
+
+        action.reset();
+        expect(action.getSnapshot().status).toBe("init");
+        expect(action.isRunning()).toBe(false);
+        expect(calls[0]?.signal.aborted).toBe(true);
+
+        calls[0]?.resolve("A");
+        await run;
+        expect(action.getSnapshot().status).toBe("init");
+    });
+
+    it("meets the subscribe and getSnapshot contract of useSyncExternalStore", async () => {
+        const action = Action.fromResult(async (_context, value: number) => Result.ok(value));
+        const { subscribe, getSnapshot } = action; // Passed unbound, as useSyncExternalStore does
+        let notified = 0;
+        const unsubscribe = subscribe(() => notified++);
+
+        const initial = getSnapshot();
+        expect(getSnapshot()).toBe(initial);
+        action.cancel(); // Nothing to cancel: no change, no notification
+        expect(getSnapshot()).toBe(initial);
+        expect(notified).toBe(0);
+
+        await action.run(1);
+        expect(notified).toBe(2); // loading, then ok
+        expect(getSnapshot()).toBe(getSnapshot());
+
+        unsubscribe();
+        await action.run(2);
+        expect(notified).toBe(2);
+    });
+});
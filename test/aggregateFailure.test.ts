@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { aggregateFailures } from "../src/failures";
+import { AggregateFailure } from "../src/failures/AggregateFailure";
+import { EntityNotFound } from "../src/failures/EntityNotFound";
+import { IllegalArgument } from "../src/failures/IllegalArgument";
+import { TimeoutFailure } from "../src/failures/TimeoutFailure";
+import { Result } from "../src/result";
+
+describe("AggregateFailure", () => {
+    const notFound = EntityNotFound.forEntity("User", 1);
+    const timeout = TimeoutFailure.after(100);
+
+    it("keeps the failures in order and lists their messages", () => {
+        const aggregate = new AggregateFailure([notFound, timeout]);
+
+        expect(aggregate.failures).toEqual([notFound, timeout]);
+        expect(aggregate.message).toBe(`2 failure(s) occurred: ${notFound.message}; ${timeout.message}`);
+        expect(new AggregateFailure([notFound], "lookup failed").message).toBe("lookup failed");
+        expect(aggregate.toString()).toContain(notFound.toString());
+    });
+
+    it("is an AggregateFailure, and checks the kind of its leaf failures separately", () => {
+        const aggregate = AggregateFailure.from([notFound, new AggregateFailure([timeout])]);
+
+        expect(aggregate.isA(AggregateFailure)).toBe(true);
+        expect(aggregate.isA(Failure)).toBe(true);
+        expect(aggregate.isA(EntityNotFound)).toBe(false);
+        expect(aggregate.failures).toEqual([notFound, timeout]);
+        expect(aggregate.containsA(TimeoutFailure)).toBe(true);
+        expect(aggregate.everyIsA(TimeoutFailure)).toBe(false);
+        expect(aggregate.filterA(EntityNotFound)).toEqual([notFound]);
+        expect(new AggregateFailure([new AggregateFailure([notFound]), timeout]).flatten()).toEqual([notFound, timeout]);
+    });
+
+    it("requires at least one failure", () => {
+        expect(() => new AggregateFailure([])).toThrow(IllegalArgument);
+        expect(() => aggregateFailures([])).toThrow(IllegalArgument);
+    });
+
+    it("reports every failure of Result.combine", () => {
+        const result = Result.combine([Result.ok(1), Result.failure<number>(notFound), Result.failure<number>(timeout)]);
+
+        expect(result.failure().failures).toEqual([notFound, timeout]);
+    });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Deadline, runWithin } from "../src/deadline";
+import { failureOfAsync } from "../src/failures";
+import { CancelledFailure } from "../src/failures/CancelledFailure";
+import { IllegalArgument } from "../src/failures/IllegalArgument";
+import { TimeoutFailure } from "../src/failures/TimeoutFailure";
+import { Result } from "../src/result";
+
+const never = () => new Promise<never>(() => {});
+
+describe("runWithin", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("does not time out without a finite limit", async () => {
+        const value = (signal: AbortSignal) => new Promise((resolve) => setTimeout(() => resolve(signal.aborted), 10));
+        expect(await runWithin(value, { timeoutMs: Number.POSITIVE_INFINITY })).toBe(false);
+        expect(await runWithin(value, { deadline: Deadline.after(Number.POSITIVE_INFINITY) })).toBe(false);
+    });
+
+    it("waits for limits longer than the longest setTimeout delay", async () => {
+        vi.useFakeTimers();
+        const limitMs = 30 * 24 * 60 * 60 * 1000; // 30 days
+        let failure: unknown;
+        runWithin(never, { timeoutMs: limitMs }).catch((error: unknown) => {
+            failure = error;
+        });
+        await vi.advanceTimersByTimeAsync(limitMs - 1);
+        expect(failure).toBeUndefined();
+        await vi.advanceTimersByTimeAsync(1);
+        expect(failure).toBeInstanceOf(TimeoutFailure);
+        expect((failure as TimeoutFailure).timeoutMs).toBe(limitMs);
+    });
+
+    it("rejects a NaN or negative timeout", async () => {
+        expect(() => runWithin(never, { timeoutMs: Number.NaN })).toThrow(IllegalArgument);
+        expect(() => runWithin(never, { timeoutMs: -1 })).toThrow(IllegalArgument);
+        expect((await Result.of(never, { timeoutMs: -1 })).failure().findCause(IllegalArgument)).toBeDefined();
+    });
+});
+
+describe("Deadline", () => {
+    it("rejects a NaN or negative budget", () => {
+        expect(() => Deadline.after(Number.NaN)).toThrow(IllegalArgument);
+        expect(() => Deadline.after(-1)).toThrow(IllegalArgument);
+        expect(() => Deadline.after(100).within(Number.NaN)).toThrow(IllegalArgument);
+        expect(() => Deadline.after(100).within(-5)).toThrow(IllegalArgument);
+    });
+
+    it("keeps the earlier expiry in within", () => {
+        let now = 0;
+        const deadline = Deadline.after(100, () => now);
+        expect(deadline.within(50).expiresAt).toBe(50);
+        expect(deadline.within(500).expiresAt).toBe(100);
+        now = 100;
+        expect(deadline.isExpired()).toBe(true);
+        expect(Deadline.after(Number.POSITIVE_INFINITY, () => now).isExpired()).toBe(false);
+    });
+});
+
+describe("failureOfAsync", () => {
+    it("returns a timeout or a cancellation as is and aborts the runnable's signal", async () => {
+        let signal: AbortSignal | undefined;
+        const timedOut = await failureOfAsync((received) => {
+            signal = received;
+            return never();
+        }, { timeoutMs: 0 });
+        expect(timedOut.failure()).toBeInstanceOf(TimeoutFailure);
+
+        const controller = new AbortController();
+        const cancelled = failureOfAsync((received) => {
+            signal = received;
+            return never();
+        }, { signal: controller.signal });
+        await Promise.resolve();
+        controller.abort();
+        expect((await cancelled).failure()).toBeInstanceOf(CancelledFailure);
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it("wraps an error thrown by the runnable", async () => {
+        const result = await failureOfAsync(() => {
+            throw new TypeError("broken");
+        }, { timeoutMs: 1_000 });
+        expect(result.failure().cause).toBeInstanceOf(TypeError);
+        expect(await failureOfAsync(() => undefined, { timeoutMs: 1_000 })).toEqual(Result.ok(undefined));
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import { type DecodedOf, Decoder } from "../src/decoder";
+import { InvalidRequest } from "../src/failures/InvalidRequest";
+
+const order = Decoder.object({
+    id: Decoder.string(),
+    status: Decoder.literal("OPEN", "CLOSED"),
+    note: Decoder.optional(Decoder.string()),
+    customer: Decoder.object({
+        name: Decoder.string(),
+        address: Decoder.object({ city: Decoder.string() }),
+    }),
+    items: Decoder.array(Decoder.object({
+        sku: Decoder.string(),
+        price: Decoder.number().refine((price) => price > 0, "must be positive"),
+    })),
+});
+
+const validOrder = {
+    id: "o-1",
+    status: "OPEN",
+    customer: { name: "Ada", address: { city: "London" } },
+    items: [{ sku: "a", price: 1 }, { sku: "b", price: 2 }, { sku: "c", price: 3 }],
+};
+
+describe("Decoder", () => {
+    it("infers the decoded type, with optional fields for decoders that accept undefined", () => {
+        expectTypeOf<DecodedOf<typeof order>>().toEqualTypeOf<{
+            id: string;
+            status: "OPEN" | "CLOSED";
+            note?: string | undefined;
+            customer: { name: string; address: { city: string } };
+            items: { sku: string; price: number }[];
+        }>();
+        expectTypeOf(Decoder.nullable(Decoder.number()).decode(1).get()).toEqualTypeOf<number | null>();
+    });
+
+    it("reports every error under its field path in nested arrays and objects", () => {
+        const result = order.decode({
+            ...validOrder,
+            status: "SHIPPED",
+            customer: { name: 42, address: {} },
+            items: [{ sku: "a", price: 1 }, { sku: "b", price: 2 }, { sku: "c", price: "3" }],
+        });
+
+        expect(result.failure()).toBeInstanceOf(InvalidRequest);
+        expect(result.failure().toFieldErrors()).toEqual({
+            status: ['expected "OPEN" | "CLOSED", got "SHIPPED"'],
+            "customer.name": ["expected string, got number"],
+            "customer.address.city": ["expected string, got undefined"],
+            "items[2].price": ["expected number, got string"],
+        });
+    });
+
+    it("accepts a missing optional field and drops unknown fields", () => {
+        expect(order.decode({ ...validOrder, extra: true }).get()).toEqual(validOrder);
+        expect(order.decode({ ...validOrder, note: "fragile" }).get().note).toBe("fragile");
+        expect(order.decode({ ...validOrder, note: 1 }).failure().reasonsFor("note")).toEqual(["expected string, got number"]);
+    });
+
+    it("reports a missing required field", () => {
+        const { id: _id, ...withoutId } = validOrder;
+        expect(order.decode(withoutId).failure().toFieldErrors()).toEqual({ id: ["expected string, got undefined"] });
+    });
+
+    it("reports a single combined error when no alternative of a union accepts the input", () => {
+        const idOrCount = Decoder.union(Decoder.string(), Decoder.number());
+        expect(idOrCount.decode("a").get()).toBe("a");
+        expect(idOrCount.decode(1).get()).toBe(1);
+        expect(Decoder.object({ value: idOrCount }).decode({ value: true }).failure().toFieldErrors())
+            .toEqual({ value: ["expected string | number, got boolean"] });
+    });
+
+    it("refines and transforms decoded values", () => {
+        const date = Decoder.string()
+            .refine((text) => !Number.isNaN(Date.parse(text)), "must be a date")
+            .transform((text) => new Date(text));
+
+        expect(date.decode("2024-01-02T00:00:00Z").get()).toEqual(new Date("2024-01-02T00:00:00Z"));
+        expect(date.decode("tomorrow").failure().toFieldErrors()).toEqual({ "": ["must be a date"] });
+        expect(date.decode(3).failure().toFieldErrors()).toEqual({ "": ["expected string, got number"] });
+        expect(order.decode({ ...validOrder, items: [{ sku: "a", price: 0 }] }).failure().toFieldErrors())
+            .toEqual({ "items[0].price": ["must be positive"] });
+    });
+
+    it("reports invalid JSON under the empty path, keeping the parse error as the cause", () => {
+        const result = order.decodeJson("{ not json");
+        expect(result.failure().toFieldErrors()).toEqual({ "": ["is not valid JSON"] });
+        expect(result.failure().cause).toBeInstanceOf(SyntaxError);
+        expect(order.decodeJson(JSON.stringify(validOrder)).get()).toEqual(validOrder);
+    });
+});
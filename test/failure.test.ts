@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { ApiFailure } from "../src/failures/ApiFailure";
+import { EntityNotFound } from "../src/failures/EntityNotFound";
+
+const minified = () => {
+    // Two unrelated classes that a minifier gave the same name
+    const first = (() => class a extends Failure {})();
+    const second = (() => class a extends Failure {})();
+    return [first, second] as const;
+};
+
+describe("Failure.isA", () => {
+    it("does not confuse unrelated classes that only share a constructor name", () => {
+        const [First, Second] = minified();
+        expect(First.name).toBe(Second.name);
+        expect(new First("first").isA(Second)).toBe(false);
+        expect(new First("first").isA(First)).toBe(true);
+        expect(new First("first").isA(Failure)).toBe(true);
+    });
+
+    it("recognizes a copy of a class that declares its kind", () => {
+        // Stands for EntityNotFound loaded from a second copy of the package
+        class EntityNotFoundCopy extends Failure {
+            public get kind(): "EntityNotFound" {
+                return "EntityNotFound";
+            }
+        }
+        class Subclass extends EntityNotFoundCopy {}
+
+        expect(new EntityNotFoundCopy("missing").isA(EntityNotFound)).toBe(true);
+        expect(new Subclass("missing").isA(EntityNotFound)).toBe(true);
+        expect(new EntityNotFound("missing").isA(Subclass)).toBe(false);
+    });
+
+    it("is used by findCause and hasCause for the causes too", () => {
+        class EntityNotFoundCopy extends Failure {
+            public get kind(): "EntityNotFound" {
+                return "EntityNotFound";
+            }
+        }
+        const copy = new EntityNotFoundCopy("missing");
+        const failure = new ApiFailure("lookup failed", { status: 404 }, copy);
+
+        expect(failure.findCause(EntityNotFound)).toBe(copy);
+        expect(failure.hasCause(EntityNotFound)).toBe(true);
+        expect(failure.hasCause(minified()[0])).toBe(false);
+    });
+
+    it("only reports a declared kind for classes that override it", () => {
+        const [First] = minified();
+        expect(Failure.declaredKindOf(EntityNotFound)).toBe("EntityNotFound");
+        expect(Failure.declaredKindOf(First)).toBeUndefined();
+        expect(Failure.declaredKindOf(Failure)).toBeUndefined();
+    });
+});
+
+describe("Failure fields", () => {
+    it("are not enumerable, so util.inspect and error reporters show a failure like a plain Error", () => {
+        const failure = new EntityNotFound("User not found.", { entityType: "User", key: 42 }, new ApiFailure("Not Found", { status: 404 }))
+            .withCode("USR_404")
+            .withContext({ tenant: "acme" });
+
+        expect(Object.keys(failure)).toEqual([]);
+        expect(Object.keys(failure.cause as object)).toEqual([]);
+        expect(Object.getOwnPropertyNames(failure)).toEqual(expect.arrayContaining(["_code", "_context", "_timestamp", "_entityType"]));
+    });
+
+    it("are still readable and copied", () => {
+        const failure = new EntityNotFound("User not found.", { entityType: "User", key: 42 }).withCode("USR_404");
+        expect(failure.code).toBe("USR_404");
+        expect(failure.entityType).toBe("User");
+        expect(failure.key).toBe(42);
+        expect(failure.withContext({ tenant: "acme" }).context).toEqual({ tenant: "acme" });
+        expect(Object.keys(new Failure("plain").withContext({ tenant: "acme" }))).toEqual([]);
+    });
+});
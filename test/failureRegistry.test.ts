@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { Failure, type FailureJSON } from "../src/failure";
+import { FailureRegistry } from "../src/failureRegistry";
+import { AggregateFailure } from "../src/failures/AggregateFailure";
+import { EntityNotFound } from "../src/failures/EntityNotFound";
+import { IllegalArgument } from "../src/failures/IllegalArgument";
+import { InternalFailure } from "../src/failures/InternalFailure";
+import { InvalidRequest } from "../src/failures/InvalidRequest";
+import { RetriesExhausted } from "../src/failures/RetriesExhausted";
+import { TimeoutFailure } from "../src/failures/TimeoutFailure";
+
+class PaymentDeclined extends Failure {
+    public readonly amount: number;
+
+    constructor(message: string, amount: number, cause?: unknown) {
+        super(message, cause);
+        this.amount = amount;
+    }
+
+    public get kind(): "PaymentDeclined" {
+        return "PaymentDeclined";
+    }
+
+    public toJSON(): FailureJSON {
+        return { ...super.toJSON(), amount: this.amount };
+    }
+}
+
+/** Sends a failure through JSON text, as a worker thread or a queue would. */
+function roundTrip(failure: Failure, registry: FailureRegistry = FailureRegistry.defaults()): Failure {
+    return registry.fromJSON(JSON.parse(JSON.stringify(failure)));
+}
+
+describe("FailureRegistry", () => {
+    it("recreates built-in failures with their class and payload", () => {
+        const notFound = roundTrip(EntityNotFound.forEntity("User", 42));
+        expect(notFound).toBeInstanceOf(EntityNotFound);
+        expect((notFound as EntityNotFound).entityType).toBe("User");
+        expect((notFound as EntityNotFound).key).toBe(42);
+
+        const invalid = roundTrip(new InvalidRequest({ email: ["is required"], "items[2].price": ["must be positive"] }));
+        expect((invalid as InvalidRequest).toFieldErrors()).toEqual({ email: ["is required"], "items[2].price": ["must be positive"] });
+
+        const aggregate = roundTrip(new AggregateFailure([TimeoutFailure.after(100), new IllegalArgument("bad")]));
+        expect((aggregate as AggregateFailure).failures.map((failure) => failure.constructor)).toEqual([TimeoutFailure, IllegalArgument]);
+        expect(((aggregate as AggregateFailure).failures[0] as TimeoutFailure).timeoutMs).toBe(100);
+
+        const exhausted = roundTrip(new RetriesExhausted([{ attempt: 1, failure: new InternalFailure("crashed"), failedAt: 5 }]));
+        expect((exhausted as RetriesExhausted).attempts[0]?.failure).toBeInstanceOf(InternalFailure);
+        expect((exhausted as RetriesExhausted).attempts[0]?.failedAt).toBe(5);
+    });
+
+    it("recreates registered subclasses", () => {
+        const registry = FailureRegistry.defaults().register({
+            failureClass: PaymentDeclined,
+            fromJSON: (json, cause) => new PaymentDeclined(json.message, json.amount as number, cause),
+        });
+
+        const failure = roundTrip(new PaymentDeclined("declined", 25), registry);
+        expect(failure).toBeInstanceOf(PaymentDeclined);
+        expect((failure as PaymentDeclined).amount).toBe(25);
+        expect(roundTrip(new PaymentDeclined("declined", 25))).not.toBeInstanceOf(PaymentDeclined);
+    });
+
+    it("recreates the cause chain, with failures and plain errors", () => {
+        const error = new TypeError("undefined is not a function");
+        const failure = roundTrip(new InternalFailure("crashed", EntityNotFound.forEntity("User", 1, error)));
+
+        const cause = failure.cause as EntityNotFound;
+        expect(cause).toBeInstanceOf(EntityNotFound);
+        expect(cause.cause).toBeInstanceOf(Error);
+        expect((cause.cause as Error).name).toBe("TypeError");
+        expect((cause.cause as Error).message).toBe(error.message);
+        expect(failure.rootCause()).toBe(cause.cause);
+    });
+
+    it("restores the code and the context", () => {
+        const failure = roundTrip(EntityNotFound.forEntity("User", 42).withCode("USR_404").withContext({ tenant: "acme" }));
+
+        expect(failure.code).toBe("USR_404");
+        expect(failure.context).toEqual({ tenant: "acme" });
+        expect(failure.message).toBe("User with id '42' not found.");
+    });
+
+    it("recreates failures of an unknown kind as a plain Failure", () => {
+        const failure = FailureRegistry.defaults().fromJSON({ kind: "Teapot", message: "short and stout", cause: "steam" });
+
+        expect(failure.constructor).toBe(Failure);
+        expect(failure.message).toBe("short and stout");
+        expect(failure.cause).toBe("steam");
+    });
+
+    it("rejects input that is not the JSON form of a failure", () => {
+        const registry = FailureRegistry.defaults();
+        for (const input of [null, undefined, "Failure", 42, {}, { kind: "Failure" }, { message: "no kind" }, { kind: 1, message: "x" }]) {
+            expect(() => registry.fromJSON(input as unknown as FailureJSON)).toThrow(IllegalArgument);
+        }
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { okState } from "../src/action";
+import { Failure } from "../src/failure";
+import { Option } from "../src/option";
+import { Result } from "../src/result";
+
+const FALSY_VALUES: readonly [string, unknown][] = [
+    ["0", 0],
+    ["-0", -0],
+    ["an empty string", ""],
+    ["false", false],
+    ["undefined", undefined],
+    ["null", null],
+    ["NaN", Number.NaN],
+    ["0n", 0n],
+];
+
+describe.each(FALSY_VALUES)("Result.ok(%s)", (_name, value) => {
+    const result = Result.ok(value);
+
+    it("is successful", () => {
+        expect(result.isOk()).toBe(true);
+        expect(result.isFailure()).toBe(false);
+        expect(() => result.failure()).toThrow();
+    });
+
+    it("keeps the value through get and expect", () => {
+        expect(result.get()).toBe(value);
+        expect(result.expect("should not throw")).toBe(value);
+        expect(result.getOrElse("default")).toBe(value);
+    });
+
+    it("passes the value to map", () => {
+        const mapped = result.map((received) => [received]);
+        expect(mapped.isOk()).toBe(true);
+        expect(mapped.get()).toEqual([value]);
+    });
+
+    it("maps to a falsy value", () => {
+        expect(Result.ok("value").map(() => value).get()).toBe(value);
+    });
+
+    it("passes the value to flatMap", () => {
+        expect(result.flatMap((received) => Result.ok([received])).get()).toEqual([value]);
+        expect(result.flatMap(() => Result.failure(new Failure("failed"))).isFailure()).toBe(true);
+    });
+
+    it("runs ifOk and not ifFailure", () => {
+        const received: unknown[] = [];
+        result.ifOk((ok) => received.push(ok));
+        result.ifFailure(() => received.push("failure"));
+        expect(received).toEqual([value]);
+    });
+
+    it("selects the ok handler of match", () => {
+        expect(result.match({ ok: (ok) => ["ok", ok], failure: () => ["failure"] })).toEqual(["ok", value]);
+    });
+});
+
+describe("Result.failure", () => {
+    const result = Result.failure<number>(new Failure("failed"));
+
+    it("does not call the mappers", () => {
+        let called = false;
+        expect(result.map(() => { called = true; }).isFailure()).toBe(true);
+        expect(result.flatMap(() => { called = true; return Result.ok(1); }).isFailure()).toBe(true);
+        result.ifOk(() => { called = true; });
+        expect(called).toBe(false);
+    });
+
+    it("throws from get and expect", () => {
+        expect(() => result.get()).toThrow(Failure);
+        expect(() => result.expect("context")).toThrow("context: failed");
+    });
+});
+
+describe.each(FALSY_VALUES.filter(([, value]) => value !== undefined && value !== null))("Option.some(%s)", (_name, value) => {
+    const option = Option.some(value);
+
+    it("is present and returns the value", () => {
+        expect(option.isOk()).toBe(true);
+        expect(option.isEmpty()).toBe(false);
+        expect(option.get()).toBe(value);
+        expect(option.getOrElse("default" as unknown)).toBe(value);
+    });
+
+    it("passes the value to map and flatMap", () => {
+        expect(option.map((received) => [received]).get()).toEqual([value]);
+        expect(option.flatMap((received) => Option.some([received])).get()).toEqual([value]);
+    });
+});
+
+describe("Option with null or undefined", () => {
+    it("is empty when created from a nullable value", () => {
+        expect(Option.fromNullable(null).isEmpty()).toBe(true);
+        expect(Option.fromNullable(undefined).isEmpty()).toBe(true);
+        expect(() => Option.fromNullable(null).get()).toThrow(Failure);
+    });
+
+    it("rejects them in Option.some", () => {
+        expect(() => Option.some(null)).toThrow();
+        expect(() => Option.some(undefined)).toThrow();
+    });
+});
+
+describe.each(FALSY_VALUES)("okState(%s)", (_name, value) => {
+    it("is an ok state holding the value", () => {
+        const state = okState(value);
+        expect(state.status).toBe("ok");
+        expect(state.isOk).toBe(true);
+        expect(state.isFailure).toBe(false);
+        expect(state.value).toBe(value);
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { IllegalArgument } from "../src/failures/IllegalArgument";
+import { IllegalState } from "../src/failures/IllegalState";
+import { InvalidRequest, fieldPath } from "../src/failures/InvalidRequest";
+
+describe("InvalidRequest", () => {
+    it("requires at least one field reason", () => {
+        expect(() => new InvalidRequest(new Map())).toThrow(IllegalArgument);
+        expect(() => new InvalidRequest({})).toThrow(IllegalArgument);
+        expect(() => new InvalidRequest({ email: [] })).toThrow(IllegalArgument);
+        expect(() => new InvalidRequest("email", " ")).toThrow(IllegalArgument);
+    });
+
+    it("builds nothing from an empty builder", () => {
+        const builder = InvalidRequest.builder();
+        expect(builder.hasReasons()).toBe(false);
+        expect(() => builder.build()).toThrow(IllegalState);
+    });
+
+    it("merges and nests field reasons without repeating them", () => {
+        const invalid = InvalidRequest.builder()
+            .add("email", "is required")
+            .addAll(new InvalidRequest({ city: ["is required"] }), "address")
+            .addAll(new InvalidRequest("price", "must be positive").prefix("items", 2))
+            .build()
+            .merge(new InvalidRequest({ email: ["is required", "is invalid"] }));
+
+        expect(invalid.toFieldErrors()).toEqual({
+            email: ["is required", "is invalid"],
+            "address.city": ["is required"],
+            "items[2].price": ["must be positive"],
+        });
+        expect(invalid.reasonsFor("missing")).toEqual([]);
+    });
+
+    it("joins field paths", () => {
+        expect(fieldPath("items", 2, "price")).toBe("items[2].price");
+        expect(fieldPath("order", "items[2].price")).toBe("order.items[2].price");
+        expect(fieldPath("", "email")).toBe("email");
+    });
+});
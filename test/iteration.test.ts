@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { Option } from "../src/option";
+import { Result } from "../src/result";
+import { ResultAsync } from "../src/resultAsync";
+
+describe("iteration", () => {
+    it("spreads the present value of an Option", () => {
+        expect([...Option.some(5)]).toEqual([5]);
+        expect([...Option.none()]).toEqual([]);
+        const values: number[] = [];
+        for (const value of Option.some(0)) {
+            values.push(value);
+        }
+        expect(values).toEqual([0]);
+    });
+});
+
+describe("do-notation", () => {
+    it("evaluates Option.gen to the returned value or the first empty Option", () => {
+        expect(Option.gen(function* () {
+            const a = yield* Option.some(1).bind();
+            const b = yield* Option.some(2).bind();
+            return a + b;
+        }).get()).toBe(3);
+
+        let reached = false;
+        expect(Option.gen(function* () {
+            yield* Option.none<number>().bind();
+            reached = true;
+            return 1;
+        }).isEmpty()).toBe(true);
+        expect(reached).toBe(false);
+    });
+
+    it("evaluates Result.gen to the returned value or the first failure", () => {
+        expect(Result.gen(function* () {
+            const a = yield* Result.ok(1);
+            return a + 1;
+        }).get()).toBe(2);
+
+        const failure = new Failure("failed");
+        expect(Result.gen(function* () {
+            const a = yield* Result.failure<number>(failure);
+            return a + 1;
+        }).failure()).toBe(failure);
+    });
+
+    it("accepts Results and ResultAsyncs in Result.genAsync", async () => {
+        const result = await Result.genAsync(async function* () {
+            const a = yield* ResultAsync.from(Result.ok(1));
+            const b = yield* Result.ok(2);
+            return a + b;
+        });
+        expect(result.get()).toBe(3);
+    });
+});
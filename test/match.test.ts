@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { AuthFailure } from "../src/failures/AuthFailure";
+import { EntityNotFound } from "../src/failures/EntityNotFound";
+import { matchFailureExhaustive, when } from "../src/match";
+
+class NetFail extends Failure {
+    public get kind(): "NetFail" {
+        return "NetFail";
+    }
+}
+
+class DbFail extends Failure {
+    public get kind(): "DbFail" {
+        return "DbFail";
+    }
+}
+
+class TimeoutNetFail extends NetFail {}
+
+class UnbrandedFail extends Failure {}
+
+describe("matchFailureExhaustive", () => {
+    it("dispatches to the case of the closest class", () => {
+        const match = (failure: NetFail | DbFail) => matchFailureExhaustive(failure,
+            when(DbFail, () => "db"),
+            when(NetFail, () => "net"),
+        );
+        expect(match(new NetFail("offline"))).toBe("net");
+        expect(match(new DbFail("locked"))).toBe("db");
+        expect(match(new TimeoutNetFail("slow"))).toBe("net");
+    });
+
+    it("matches built-in failures", () => {
+        const failure: EntityNotFound | AuthFailure = new AuthFailure("expired", "unauthenticated");
+        expect(matchFailureExhaustive(failure,
+            when(EntityNotFound, () => 404),
+            when(AuthFailure, () => 401),
+        )).toBe(401);
+    });
+
+    it("rejects missing cases and failures without a literal kind at compile time", () => {
+        const failure = new DbFail("locked") as NetFail | DbFail;
+        // @ts-expect-error DbFail has no case
+        expect(() => matchFailureExhaustive(failure, when(NetFail, () => "net"))).toThrow();
+        // @ts-expect-error UnbrandedFail does not declare a literal kind
+        when(UnbrandedFail, () => "unbranded");
+        // @ts-expect-error Failure does not declare a literal kind
+        expect(() => matchFailureExhaustive(new Failure("plain"), when(NetFail, () => "net"))).toThrow();
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { Option } from "../src/option";
+
+const typeError = () => {
+    const value = undefined as unknown as { name: string };
+    return value.name; // throws a TypeError
+};
+
+const suppliers = {
+    sync: <T>(supply: () => T) => () => supply(),
+    async: <T>(supply: () => T) => async () => supply(),
+};
+
+describe.each(Object.entries(suppliers))("Option.of with a %s supplier", (_kind, supplier) => {
+    it("wraps a value", async () => {
+        expect((await Option.of(supplier(() => 42))).get()).toBe(42);
+        expect((await Option.of(supplier(() => 0))).get()).toBe(0);
+    });
+
+    it("turns null and undefined into an empty Option", async () => {
+        expect((await Option.of(supplier(() => null))).isEmpty()).toBe(true);
+        expect((await Option.of(supplier(() => undefined))).isEmpty()).toBe(true);
+        expect((await Option.fromNullableAsync(supplier(() => null))).isEmpty()).toBe(true);
+    });
+
+    it("rejects with a thrown TypeError instead of returning an empty Option", async () => {
+        await expect(Option.of(supplier(typeError))).rejects.toBeInstanceOf(TypeError);
+        await expect(Option.fromNullableAsync(supplier(typeError))).rejects.toBeInstanceOf(TypeError);
+    });
+});
+
+describe.each(Object.entries(suppliers))("Option.ofAsync with a %s supplier", (_kind, supplier) => {
+    it("resolves to a successful Result of the Option", async () => {
+        expect((await Option.ofAsync(supplier(() => "value"))).get().get()).toBe("value");
+        expect((await Option.ofAsync(supplier(() => null))).get().isEmpty()).toBe(true);
+    });
+
+    it("turns a thrown error into a Failure caused by it", async () => {
+        const result = await Option.ofAsync(supplier(typeError));
+        expect(result.isFailure()).toBe(true);
+        expect(result.failure()).toBeInstanceOf(Failure);
+        expect(result.failure().cause).toBeInstanceOf(TypeError);
+    });
+});
+
+describe("Option.try", () => {
+    it("wraps a value or an empty Option", () => {
+        expect(Option.try(() => "value").get().get()).toBe("value");
+        expect(Option.try(() => null).get().isEmpty()).toBe(true);
+    });
+
+    it("turns a thrown error into a Failure caused by it", () => {
+        const result = Option.try(typeError);
+        expect(result.isFailure()).toBe(true);
+        expect(result.failure().cause).toBeInstanceOf(TypeError);
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { ApiFailure } from "../src/failures/ApiFailure";
+import { AuthFailure } from "../src/failures/AuthFailure";
+import { EntityNotFound } from "../src/failures/EntityNotFound";
+import { InternalFailure } from "../src/failures/InternalFailure";
+import { InvalidRequest } from "../src/failures/InvalidRequest";
+import { ProblemMapper } from "../src/problem";
+
+class PaymentDeclined extends Failure {
+    public get kind(): "PaymentDeclined" {
+        return "PaymentDeclined";
+    }
+}
+
+/** A subclass without a mapping of its own, nor a kind of its own. */
+class OrderNotFound extends EntityNotFound {}
+
+const mapper = ProblemMapper.defaults();
+
+describe("ProblemMapper.toProblem", () => {
+    it("fills the RFC 7807 members from the mapping and the failure", () => {
+        const failure = EntityNotFound.forEntity("User", 42).withCode("USR_404");
+
+        expect(mapper.toProblem(failure, "/users/42")).toEqual({
+            type: "about:blank",
+            title: "Not Found",
+            status: 404,
+            detail: failure.message,
+            instance: "/users/42",
+            kind: "EntityNotFound",
+            code: "USR_404",
+            entityType: "User",
+            key: 42,
+        });
+    });
+
+    it("uses the type, title, status and detail of a registered mapping", () => {
+        const custom = mapper.register({
+            failureClass: PaymentDeclined,
+            status: 402,
+            type: "https://example.com/problems/payment-declined",
+            title: "Payment declined",
+            detail: (failure) => `Declined: ${failure.message}`,
+            extensions: () => ({ retryable: false }),
+        });
+
+        expect(custom.toProblem(new PaymentDeclined("card expired"))).toEqual({
+            type: "https://example.com/problems/payment-declined",
+            title: "Payment declined",
+            status: 402,
+            detail: "Declined: card expired",
+            kind: "PaymentDeclined",
+            retryable: false,
+        });
+    });
+
+    it("maps each built-in kind, and subclasses through their closest mapped class", () => {
+        expect(mapper.toProblem(new AuthFailure("no token")).status).toBe(401);
+        expect(mapper.toProblem(AuthFailure.forbidden("delete")).status).toBe(403);
+        expect(mapper.toProblem(new InvalidRequest("email", "is required"))).toMatchObject({
+            status: 400,
+            errors: { email: ["is required"] },
+        });
+        expect(mapper.toProblem(new OrderNotFound("no order 7", { entityType: "Order", key: 7 }))).toMatchObject({
+            status: 404,
+            kind: "EntityNotFound",
+            entityType: "Order",
+        });
+        expect(mapper.toProblem(new InternalFailure("stack overflow in billing")).detail).toBeUndefined();
+    });
+
+    it("falls back to a 500 without a detail for failures without a mapping", () => {
+        expect(mapper.toProblem(new PaymentDeclined("secret internals"))).toEqual({
+            type: "about:blank",
+            title: "Internal Server Error",
+            status: 500,
+            kind: "Failure",
+        });
+        expect(ProblemMapper.empty().toProblem(EntityNotFound.forEntity("User", 1)).status).toBe(500);
+    });
+});
+
+describe("ProblemMapper.fromProblem", () => {
+    it("recreates the failure of a mapped kind, with its payload and code", () => {
+        const failure = mapper.fromProblem(mapper.toProblem(EntityNotFound.forEntity("User", 42).withCode("USR_404")));
+
+        expect(failure).toBeInstanceOf(EntityNotFound);
+        expect((failure as EntityNotFound).key).toBe(42);
+        expect(failure.code).toBe("USR_404");
+        expect((mapper.fromProblem(mapper.toProblem(new InvalidRequest("email", "is required"))) as InvalidRequest)
+            .reasonsFor("email")).toEqual(["is required"]);
+    });
+
+    it("recognizes a registered type URI", () => {
+        const custom = mapper.register({
+            failureClass: PaymentDeclined,
+            status: 402,
+            type: "https://example.com/problems/payment-declined",
+            parse: (problem) => new PaymentDeclined(String(problem.detail)),
+        });
+
+        const failure = custom.fromProblem({ type: "https://example.com/problems/payment-declined", title: "Payment declined", status: 402, detail: "card expired" });
+        expect(failure).toBeInstanceOf(PaymentDeclined);
+        expect(failure.message).toBe("card expired");
+    });
+
+    it("falls back to an ApiFailure holding the document for unknown problems", () => {
+        const problem = { type: "https://example.com/problems/unknown", title: "Teapot", status: 418, kind: "Teapot" };
+        const failure = mapper.fromProblem(problem);
+
+        expect(failure).toBeInstanceOf(ApiFailure);
+        expect((failure as ApiFailure).status).toBe(418);
+        expect((failure as ApiFailure).body).toBe(problem);
+        expect(failure.message).toBe("Teapot");
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { Result } from "../src/result";
+
+describe("Result.failure", () => {
+    it("accepts any Failure, as it always has", () => {
+        const failure = new Failure("");
+        expect(Result.failure(failure).failure()).toBe(failure);
+        expect(Result.failure(Failure.empty()).isFailure()).toBe(true);
+    });
+});
+
+describe("Result.all, Result.combine and Result.allRecord", () => {
+    it("succeed with no values for an empty input", () => {
+        expect(Result.all([]).get()).toEqual([]);
+        expect(Result.combine([]).get()).toEqual([]);
+        expect(Result.allRecord({}).get()).toEqual({});
+    });
+});
+
+describe("Result.map and Result.flatMap", () => {
+    it("turn an error thrown by the mapper into a failure", () => {
+        const error = new Error("boom");
+        const mapped = Result.ok(1).map(() => { throw error; });
+        expect(mapped.isFailure()).toBe(true);
+        expect(mapped.failure().message).toBe("boom");
+        expect(mapped.failure().cause).toBe(error);
+
+        const flatMapped = Result.ok(1).flatMap((): Result<number> => { throw "bad input"; });
+        expect(flatMapped.failure().message).toBe("bad input");
+    });
+
+    it("let an error thrown by the mapper propagate in the unchecked versions", () => {
+        expect(() => Result.ok(1).mapUnchecked(() => { throw new Error("boom"); })).toThrow("boom");
+        expect(() => Result.ok(1).flatMapUnchecked((): Result<number> => { throw new Error("boom"); })).toThrow("boom");
+        expect(Result.ok(1).mapUnchecked((n) => n + 1).get()).toBe(2);
+        expect(Result.ok(1).flatMapUnchecked((n) => Result.ok(n + 1)).get()).toBe(2);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { failureOfAsync } from "../src/failures";
+import { EntityNotFound } from "../src/failures/EntityNotFound";
+import { Result } from "../src/result";
+import { ResultAsync } from "../src/resultAsync";
+
+/** A thenable that is not a Promise, as returned by some query builders and older libraries. */
+function thenable<T>(value: T): PromiseLike<T> {
+    return {
+        then: (onfulfilled, onrejected) => Promise.resolve(value).then(onfulfilled, onrejected),
+    };
+}
+
+describe("ResultAsync", () => {
+    it("chains sync and async steps and is awaited to the plain Result", async () => {
+        const result = await ResultAsync.ok<number, Failure>(2)
+            .map((value) => value * 10)
+            .map(async (value) => value + 1)
+            .flatMap((value) => Result.ok(`#${value}`))
+            .flatMap(async (value) => Result.ok(value.length));
+
+        expect(result).toBeInstanceOf(Result);
+        expect(result.get()).toBe(3);
+    });
+
+    it("skips the success steps after a failure and runs the failure steps", async () => {
+        const notFound = EntityNotFound.forEntity("User", 1);
+        const seen: string[] = [];
+        const result = await ResultAsync.from(Result.ok<number, Failure>(1))
+            .flatMap(() => ResultAsync.failure<number>(notFound))
+            .map((value) => {
+                seen.push("map");
+                return value;
+            })
+            .inspectOk(() => {
+                seen.push("inspectOk");
+            })
+            .inspectFailure(async (failure) => {
+                seen.push(failure.message);
+            })
+            .mapFailure((failure) => new Failure("lookup failed", failure));
+
+        expect(result.failure().cause).toBe(notFound);
+        expect(seen).toEqual([notFound.message]);
+        expect(await ResultAsync.failure<number>(notFound).recover(() => 0)).toEqual(Result.ok(0));
+        expect((await ResultAsync.failure<number>(notFound).recoverWith(async () => Result.ok(5))).get()).toBe(5);
+        expect(await ResultAsync.failure<number>(notFound).match({ ok: () => "ok", failure: (failure) => failure.message }))
+            .toBe(notFound.message);
+    });
+
+    it("rejects when a callback throws or the source Promise rejects", async () => {
+        const error = new TypeError("broken");
+        await expect(ResultAsync.ok(1).map(() => {
+            throw error;
+        })).rejects.toBe(error);
+        await expect(ResultAsync.ok(1).flatMap(() => Promise.reject(error))).rejects.toBe(error);
+        await expect(ResultAsync.from(Promise.reject<Result<number>>(error)).map((value) => value)).rejects.toBe(error);
+    });
+
+    it("turns rejections into failures when created with Result.ofAsync", async () => {
+        const error = new TypeError("broken");
+        const result = await Result.ofAsync(() => Promise.reject(error)).map((value) => value);
+
+        expect(result.failure().cause).toBe(error);
+    });
+
+    it("awaits thenables that are not Promises", async () => {
+        expect((await ResultAsync.from(thenable(Result.ok(1)))).get()).toBe(1);
+        expect((await ResultAsync.ok(1).map((value) => thenable(value + 1))).get()).toBe(2);
+        expect((await ResultAsync.ok(1).flatMap((value) => thenable(Result.ok(value + 2)))).get()).toBe(3);
+        expect(await ResultAsync.ok(4).then((result) => thenable(result.get()))).toBe(4);
+    });
+});
+
+describe("failureOfAsync", () => {
+    it("succeeds when the runnable completes, synchronously or not", async () => {
+        expect((await failureOfAsync(() => undefined)).isOk()).toBe(true);
+        expect((await failureOfAsync(async () => undefined)).isOk()).toBe(true);
+    });
+
+    it("fails with the error thrown or the rejection as the cause, and chains", async () => {
+        const error = new TypeError("broken");
+        const thrown = await failureOfAsync(() => {
+            throw error;
+        });
+        const rejected = await failureOfAsync(() => Promise.reject(error)).mapFailure((failure) => new Failure("close failed", failure));
+
+        expect(thrown.failure().cause).toBe(error);
+        expect(rejected.failure().message).toBe("close failed");
+        expect(rejected.failure().rootCause()).toBe(error);
+    });
+});
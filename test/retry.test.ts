@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { ApiFailure } from "../src/failures/ApiFailure";
+import { AuthFailure } from "../src/failures/AuthFailure";
+import { InternalFailure } from "../src/failures/InternalFailure";
+import { RetriesExhausted } from "../src/failures/RetriesExhausted";
+import { TimeoutFailure } from "../src/failures/TimeoutFailure";
+import { Result } from "../src/result";
+import { fixedBackoff, retry } from "../src/retry";
+
+const noSleep = () => Promise.resolve();
+
+/**
+ * A clock and a sleep that only move when `run` fires the earliest pending wait, once the
+ * promise under test has nothing left to do but wait.
+ */
+function fakeTime() {
+    let now = 0;
+    const sleeps: number[] = [];
+    const waits: { due: number; resolve: () => void }[] = [];
+    return {
+        sleeps,
+        clock: () => now,
+        sleep: (ms: number) => {
+            sleeps.push(ms);
+            return new Promise<void>((resolve) => waits.push({ due: now + ms, resolve }));
+        },
+        async run<T>(promise: PromiseLike<T>): Promise<T> {
+            let settled = false;
+            const settling = Promise.resolve(promise).finally(() => settled = true);
+            for (;;) {
+                await new Promise((resolve) => setTimeout(resolve, 0));
+                if (settled) {
+                    return settling;
+                }
+                waits.sort((first, second) => first.due - second.due);
+                const next = waits.shift();
+                if (!next) {
+                    throw new Error("The promise waits for nothing");
+                }
+                now = next.due;
+                next.resolve();
+            }
+        },
+    };
+}
+
+describe("retry", () => {
+    it("keeps every attempt in the cause chain", async () => {
+        const failures = [new ApiFailure("unavailable", { status: 503 }), new InternalFailure("crashed", new TypeError("bug"))];
+        const result = await retry((attempt) => Result.failure<number, Failure>(failures[(attempt - 1) % 2] as Failure), {
+            maxAttempts: 3,
+            backoff: fixedBackoff(0),
+            sleep: noSleep,
+        });
+
+        const exhausted = result.failure() as RetriesExhausted;
+        expect(exhausted).toBeInstanceOf(RetriesExhausted);
+        expect(exhausted.attempts).toHaveLength(3);
+        expect(exhausted.cause).toBe(failures[0]);
+        expect(exhausted.findCause(InternalFailure)).toBe(failures[1]);
+        expect(exhausted.hasCause(ApiFailure)).toBe(true);
+        expect([...exhausted.causes()]).toEqual([failures[0], failures[1], (failures[1] as Failure).cause]);
+        expect(exhausted.rootCause()).toBe(failures[0]);
+    });
+
+    it("keeps the earlier attempts when a failure it does not retry follows retried attempts", async () => {
+        const failures: Failure[] = [new ApiFailure("unavailable", { status: 503 }), new AuthFailure("expired token")];
+        const result = await retry((attempt) => Result.failure<number, Failure>(failures[attempt - 1] as Failure), {
+            maxAttempts: 5,
+            neverRetryOn: [AuthFailure],
+            backoff: fixedBackoff(0),
+            sleep: noSleep,
+        });
+
+        const exhausted = result.failure() as RetriesExhausted;
+        expect(exhausted).toBeInstanceOf(RetriesExhausted);
+        expect(exhausted.attempts.map((attempt) => attempt.failure)).toEqual(failures);
+        expect(exhausted.lastFailure).toBe(failures[1]);
+    });
+
+    it("returns a failure it does not retry on the first attempt as is", async () => {
+        const failure = new AuthFailure("expired token");
+        const result = await retry(() => Result.failure<number, Failure>(failure), {
+            neverRetryOn: [AuthFailure],
+            sleep: noSleep,
+        });
+
+        expect(result.failure()).toBe(failure);
+    });
+
+    it("bounds a hanging attempt by maxElapsedMs with the injected sleep and aborts its signal", async () => {
+        const time = fakeTime();
+        const signals: AbortSignal[] = [];
+        const result = await time.run(retry((attempt, signal) => {
+            signals.push(signal);
+            return attempt === 1
+                ? Result.failure<number, Failure>(new ApiFailure("unavailable", { status: 503 }))
+                : new Promise<Result<number, Failure>>(() => {});
+        }, { maxElapsedMs: 20, backoff: fixedBackoff(5), clock: time.clock, sleep: time.sleep }));
+
+        const exhausted = result.failure() as RetriesExhausted;
+        expect(exhausted).toBeInstanceOf(RetriesExhausted);
+        expect(exhausted.lastFailure).toBeInstanceOf(TimeoutFailure);
+        expect(time.sleeps).toEqual([20, 5, 15]);
+        expect(time.clock()).toBe(20);
+        expect(signals.map((signal) => signal.aborted)).toEqual([false, true]);
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { Failure } from "../src/failure";
+import { AggregateFailure } from "../src/failures/AggregateFailure";
+import { Result, type TraverseProgress } from "../src/result";
+
+/** A Result that the test settles by hand, to control the order in which items complete. */
+function deferred() {
+    let resolve!: (result: Result<number, Failure>) => void;
+    const promise = new Promise<Result<number, Failure>>((settle) => {
+        resolve = settle;
+    });
+    return { promise, resolve };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("Result.traverseAsync", () => {
+    it("never runs more items at the same time than the concurrency", async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const pending: ReturnType<typeof deferred>[] = [];
+        const traversal = Result.traverseAsync([1, 2, 3, 4, 5, 6], async (item) => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            const call = deferred();
+            pending.push(call);
+            const result = await call.promise;
+            inFlight--;
+            return result.map((value) => value * item);
+        }, { concurrency: 2 });
+
+        for (let settled = 0; settled < 6; settled++) {
+            await flush();
+            expect(inFlight).toBeLessThanOrEqual(2);
+            pending[settled]?.resolve(Result.ok(10));
+        }
+
+        expect((await traversal).get()).toEqual([10, 20, 30, 40, 50, 60]);
+        expect(maxInFlight).toBe(2);
+    });
+
+    it("keeps the item order when items complete out of order, and reports progress in completion order", async () => {
+        const calls = [deferred(), deferred(), deferred()];
+        const progress: TraverseProgress<string, number, Failure>[] = [];
+        const traversal = Result.traverseAsync(["a", "b", "c"], (_item, index) => (calls[index] as ReturnType<typeof deferred>).promise, {
+            concurrency: Number.POSITIVE_INFINITY,
+            onProgress: (update) => progress.push(update),
+        });
+
+        await flush();
+        for (const [index, call] of [...calls.entries()].reverse()) {
+            call.resolve(Result.ok(index));
+            await flush();
+        }
+
+        expect((await traversal).get()).toEqual([0, 1, 2]);
+        expect(progress.map(({ item, index, completed, total }) => [item, index, completed, total])).toEqual([
+            ["c", 2, 1, 3],
+            ["b", 1, 2, 3],
+            ["a", 0, 3, 3],
+        ]);
+    });
+
+    it("stops scheduling items and aborts the signal at the first failure in failFast mode", async () => {
+        const failure = new Failure("second failed");
+        const first = deferred();
+        const started: number[] = [];
+        const signals: AbortSignal[] = [];
+        const traversal = Result.traverseAsync([0, 1, 2, 3], (item, _index, signal) => {
+            started.push(item);
+            signals.push(signal);
+            return item === 1 ? Result.failure<number, Failure>(failure) : first.promise;
+        }, { concurrency: 2 });
+
+        await flush();
+        expect(signals[0]?.aborted).toBe(true);
+        first.resolve(Result.ok(0));
+
+        expect((await traversal).failure()).toBe(failure);
+        expect(started).toEqual([0, 1]);
+    });
+
+    it("runs every item and returns every failure in item order in collect mode", async () => {
+        const failures = [new Failure("one"), new Failure("three")];
+        const started: number[] = [];
+        const result = await Result.traverseAsync([0, 1, 2, 3], async (item) => {
+            started.push(item);
+            await flush();
+            return item % 2 === 1 ? Result.failure<number, Failure>(failures[(item - 1) / 2] as Failure) : Result.ok(item);
+        }, { concurrency: 2, mode: "collect" });
+
+        const aggregate = result.failure();
+        expect(aggregate).toBeInstanceOf(AggregateFailure);
+        expect(aggregate.failures).toEqual(failures);
+        expect(started).toEqual([0, 1, 2, 3]);
+    });
+
+    it("succeeds with no values for an empty list without calling the mapper", async () => {
+        let calls = 0;
+        const progress: unknown[] = [];
+        const result = await Result.traverseAsync([], () => {
+            calls++;
+            return Result.ok(1);
+        }, { concurrency: 3, onProgress: (update) => progress.push(update) });
+
+        expect(result.get()).toEqual([]);
+        expect(calls).toBe(0);
+        expect(progress).toEqual([]);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { EntityValidationFailed } from "../src/failures/EntityValidationFailed";
+import { InvalidRequest } from "../src/failures/InvalidRequest";
+import { Validator } from "../src/validator";
+
+interface Address {
+    city?: string;
+    zip?: string;
+}
+
+interface Order {
+    email?: string;
+    quantity: number;
+    address?: Address;
+    items: { sku: string; price: number }[];
+}
+
+const order = Validator.object<Order>({
+    email: Validator.required().and(Validator.pattern(/@/, "must be an email")),
+    quantity: Validator.min(1).and(Validator.max(10)),
+    address: Validator.object<Address>({
+        city: Validator.required(),
+        zip: Validator.minLength(5).and(Validator.pattern(/^\d+$/, "must be digits")),
+    }),
+    items: Validator.minLength(1).and(Validator.array(Validator.object({
+        price: Validator.min(0.01, "must be positive"),
+    }))),
+});
+
+describe("Validator", () => {
+    it("returns a valid value as is", () => {
+        const valid: Order = { email: "ada@example.com", quantity: 2, items: [{ sku: "a", price: 1 }] };
+        expect(order.validate(valid).get()).toBe(valid);
+    });
+
+    it("collects every violation instead of stopping at the first, under nested field paths", () => {
+        const result = order.validate({
+            quantity: 0,
+            address: { zip: "12a" },
+            items: [{ sku: "a", price: 1 }, { sku: "b", price: 2 }, { sku: "c", price: 0 }],
+        });
+
+        expect(result.failure()).toBeInstanceOf(InvalidRequest);
+        expect(result.failure().toFieldErrors()).toEqual({
+            email: ["is required"],
+            quantity: ["must be at least 1"],
+            "address.city": ["is required"],
+            "address.zip": ["must have a length of at least 5", "must be digits"],
+            "items[2].price": ["must be positive"],
+        });
+    });
+
+    it("only checks optional values when they are present", () => {
+        expect(Validator.object<Order>({ address: Validator.object<Address>({ city: Validator.required() }) })
+            .validate({ quantity: 1, items: [] }).isOk()).toBe(true);
+        expect(Validator.minLength(3).validate(undefined).isOk()).toBe(true);
+        expect(Validator.required().validate(null).failure().toFieldErrors()).toEqual({ "": ["is required"] });
+    });
+
+    it("combines validators with and, all and cross-field custom rules", () => {
+        const range = Validator.all<{ from: number; to: number }>(
+            Validator.object({ from: Validator.min(0), to: Validator.max(100) }),
+            Validator.custom((value) => value.from <= value.to, "must not be before from", "to"),
+        );
+
+        expect(range.validate({ from: -1, to: 200 }).failure().toFieldErrors()).toEqual({
+            from: ["must be at least 0"],
+            to: ["must be at most 100"],
+        });
+        expect(range.validate({ from: 5, to: 1 }).failure().toFieldErrors()).toEqual({ to: ["must not be before from"] });
+        expect(Validator.oneOf(["OPEN", "CLOSED"]).and(Validator.minLength(5)).validate("OPEN").failure().toFieldErrors())
+            .toEqual({ "": ["must have a length of at least 5"] });
+    });
+
+    it("reports violations of an entity as an EntityValidationFailed", () => {
+        const result = order.validateEntity("Order", { email: "ada", quantity: 1, items: [] });
+
+        expect(result.failure()).toBeInstanceOf(EntityValidationFailed);
+        expect(result.failure().entityType).toBe("Order");
+        expect(result.failure().violations).toEqual([
+            { field: "email", message: "must be an email" },
+            { field: "items", message: "must have a length of at least 1" },
+        ]);
+    });
+});